@@ -0,0 +1,107 @@
+import { Container, Graphics, Text } from 'pixi.js'
+
+import {
+    PixiBabylonApplication,
+    PixiTexture,
+    PixiTextureAlphaMode,
+    createPixiBabylon,
+} from '../src'
+
+/**
+ * Measures the per-frame cost of syncing N PixiTextures, with and without the correction pass
+ * Each frame syncs every texture, then reads a pixel back so the time includes the GPU work.
+ * Open /benchmark.html with `yarn run bench`, `?counts=8,32&frames=120&size=512` changes the run.
+ */
+const params = new URLSearchParams(location.search)
+const COUNTS = (params.get('counts') ?? '8,32,128').split(',').map(Number)
+const FRAMES = Number(params.get('frames') ?? 60)
+const WARMUP_FRAMES = 10
+const SIZE = Number(params.get('size') ?? 256)
+const MODES: PixiTextureAlphaMode[] = ['straight', 'premultiplied']
+
+interface BenchmarkResult {
+    mode: PixiTextureAlphaMode
+    count: number
+    /** Median time to sync every texture, in milliseconds */
+    median: number
+    /** Mean time to sync every texture, in milliseconds */
+    mean: number
+}
+
+function createContent(index: number): Container {
+    const content = new Container()
+    const shapes = new Graphics()
+        .roundRect(SIZE * 0.1, SIZE * 0.1, SIZE * 0.8, SIZE * 0.8, SIZE * 0.1)
+        .fill({ color: 0x3366ff, alpha: 0.6 })
+        .circle(SIZE / 2, SIZE / 2, SIZE / 4)
+        .fill({ color: 0xff6633, alpha: 0.8 })
+    shapes.pivot.set(SIZE / 2)
+    shapes.position.set(SIZE / 2)
+    const label = new Text({ text: `texture ${index}`, style: { fill: '#fff', fontSize: 24 } })
+    label.position.set(SIZE * 0.15)
+    content.addChild(shapes, label)
+    return content
+}
+
+function measure(app: PixiBabylonApplication, mode: PixiTextureAlphaMode, count: number) {
+    const { gl } = app
+    const size = { width: SIZE, height: SIZE }
+    const textures = Array.from(
+        { length: count },
+        (_, i) => new PixiTexture(createContent(i), size, { alphaMode: mode, resolution: 1 })
+    )
+    const pixel = new Uint8Array(4)
+    const times: number[] = []
+    for (let frame = 0; frame < WARMUP_FRAMES + FRAMES; frame++) {
+        textures.forEach(texture => (texture.container.children[0].rotation += 0.01))
+        const start = performance.now()
+        textures.forEach(texture => texture.sync())
+        // waits for the GPU to finish the syncs
+        gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, pixel)
+        if (frame >= WARMUP_FRAMES) {
+            times.push(performance.now() - start)
+        }
+    }
+    textures.forEach(texture => {
+        texture.dispose()
+        texture.container.destroy({ children: true })
+    })
+
+    times.sort((a, b) => a - b)
+    const result: BenchmarkResult = {
+        mode,
+        count,
+        median: times[Math.floor(times.length / 2)],
+        mean: times.reduce((sum, time) => sum + time, 0) / times.length,
+    }
+    return result
+}
+
+function showResults(results: BenchmarkResult[]): void {
+    const table = document.getElementById('results')!
+    const rows = results.map(({ mode, count, median, mean }) => {
+        const cells = [mode, count, median.toFixed(2), mean.toFixed(2), (median / count).toFixed(3)]
+        return `<tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`
+    })
+    const headers = ['alphaMode', 'textures', 'median ms', 'mean ms', 'ms per texture']
+    const headerRow = `<tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr>`
+    table.innerHTML = [headerRow, ...rows].join('')
+    document.getElementById('status')!.textContent =
+        `${SIZE}x${SIZE} textures, ${FRAMES} frames, ${navigator.userAgent}`
+    console.table(results)
+}
+
+;(async () => {
+    const app = await createPixiBabylon({ width: SIZE, height: SIZE })
+    document.body.appendChild(app.engine._renderingCanvas!)
+
+    const results: BenchmarkResult[] = []
+    for (const count of COUNTS) {
+        for (const mode of MODES) {
+            results.push(measure(app, mode, count))
+            // lets the page repaint between runs
+            await new Promise(resolve => setTimeout(resolve))
+        }
+    }
+    showResults(results)
+})()
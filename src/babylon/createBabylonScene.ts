@@ -29,12 +29,14 @@ export type BabylonOption = {
     engineOption: EngineOptions
     antialias: boolean
 }
-const defaultBabylonOption = { sceneOption: {}, engineOption: {}, antialias: false }
+const defaultBabylonOption = { sceneOption: {}, engineOption: {} as EngineOptions }
 export async function createBabylonScene(
     canvas: HTMLCanvasElement,
     option?: Partial<BabylonOption>
 ) {
-    const { sceneOption, engineOption, antialias } = { ...defaultBabylonOption, ...option }
+    const { sceneOption, engineOption } = { ...defaultBabylonOption, ...option }
+    // an explicit antialias wins, otherwise fall back to the engine option
+    const antialias = option?.antialias ?? engineOption.antialias ?? false
 
     const engine = new Engine(canvas, antialias, engineOption)
 
@@ -0,0 +1,296 @@
+import { Camera } from '@babylonjs/core/Cameras/camera'
+import { Viewport } from '@babylonjs/core/Maths/math.viewport'
+import { Scene } from '@babylonjs/core/scene'
+import { Container, Point, Rectangle, Renderer } from 'pixi.js'
+
+export interface CameraViewportOptions {
+    /** Inset in PIXI units, keeps borders and titles drawn by the container outside the view */
+    padding?: number
+    /** Whether the camera controls are attached while the view is active, defaults to false */
+    controls?: boolean
+    /** Whether the edges of the view snap to device pixels, defaults to true */
+    pixelSnap?: boolean
+}
+
+/**
+ * A Babylon camera whose viewport follows a PIXI container
+ */
+export class CameraViewport {
+    /** Resolved options */
+    public readonly options: Required<CameraViewportOptions>
+
+    /** Rectangle of the view in global PIXI coordinates during the last update */
+    public readonly bounds = new Rectangle()
+
+    /** Whether the view was shown during the last update */
+    public visible = false
+
+    constructor(
+        public readonly camera: Camera,
+        public readonly container: Container,
+        options: CameraViewportOptions = {}
+    ) {
+        this.options = {
+            padding: 0,
+            controls: false,
+            pixelSnap: true,
+            ...options,
+        }
+    }
+
+    /** Whether a point in global PIXI coordinates lies inside the view */
+    contains(x: number, y: number): boolean {
+        return this.visible && this.bounds.contains(x, y)
+    }
+}
+
+const point = new Point()
+const maskBounds = new Rectangle()
+
+/**
+ * Lays out Babylon cameras in the screen rectangles of PIXI containers
+ *
+ * For split-screen, picture-in-picture and editor views, each bound camera renders inside the
+ * global bounds of its container, clipped by the masks of the container and its ancestors. Views
+ * whose container is hidden leave `scene.activeCameras`, later bindings are drawn over earlier
+ * ones. PIXI rectangles start at the top left in the CSS units of the screen, whatever the
+ * resolution, Babylon viewports are normalized from the bottom left.
+ * Viewports are updated once per frame right before the Babylon render.
+ *
+ * Draw borders and titles with the container and keep them out of the view with `padding`,
+ * the view itself must stay transparent in PIXI since the layers are drawn over the scene.
+ * Babylon input is scoped to the view under the pointer: picking and pointer events use its
+ * camera, and with `controls` the camera is only attached while its view is active, i.e. once
+ * a pointer went down or a wheel turned over it.
+ *
+ * @example
+ * ```typescript
+ * const left = new Container({ boundsArea: new Rectangle(0, 0, 400, 600) })
+ * const right = new Container({ boundsArea: new Rectangle(400, 0, 400, 600) })
+ * hud.root.addChild(left, right)
+ *
+ * app.viewports.bind(playerOneCamera, left, { controls: true })
+ * app.viewports.bind(playerTwoCamera, right, { controls: true })
+ * ```
+ */
+export class CameraViewportManager {
+    private readonly views: CameraViewport[] = []
+    private active?: CameraViewport
+
+    constructor(
+        private readonly scene: Scene,
+        private readonly renderer: Renderer
+    ) {}
+
+    /** Number of bound cameras */
+    get count(): number {
+        return this.views.length
+    }
+
+    /** The view that took the last pointer down or wheel */
+    get activeView(): CameraViewport | undefined {
+        return this.active
+    }
+
+    /**
+     * Binds the viewport of a camera to a container
+     * The camera that is active without a binding stays in `scene.activeCameras` behind the views
+     */
+    bind(
+        camera: Camera,
+        container: Container,
+        options: CameraViewportOptions = {}
+    ): CameraViewport {
+        this.unbind(camera)
+        const { scene } = this
+        if (!scene.activeCameras?.length && scene.activeCamera && scene.activeCamera !== camera) {
+            scene.activeCameras = [scene.activeCamera]
+        }
+        const view = new CameraViewport(camera, container, options)
+        this.views.push(view)
+        this.updateView(view)
+        this.updateActiveCameras()
+        return view
+    }
+
+    /**
+     * Releases a camera, it renders full screen again
+     */
+    unbind(viewOrCamera: CameraViewport | Camera): void {
+        const index = this.views.findIndex(
+            view => view === viewOrCamera || view.camera === viewOrCamera
+        )
+        if (index < 0) {
+            return
+        }
+        const [view] = this.views.splice(index, 1)
+        if (view === this.active) {
+            this.deactivate()
+        }
+        const { camera } = view
+        if (!camera.isDisposed()) {
+            camera.viewport = new Viewport(0, 0, 1, 1)
+        }
+        this.scene.activeCameras = (this.scene.activeCameras ?? []).filter(c => c !== camera)
+        if (!this.views.length) {
+            this.scene.cameraToUseForPointers = null
+        }
+    }
+
+    get(camera: Camera): CameraViewport | undefined {
+        return this.views.find(view => view.camera === camera)
+    }
+
+    clear(): void {
+        ;[...this.views].forEach(view => this.unbind(view))
+    }
+
+    /**
+     * Moves every viewport to the current bounds of its container
+     */
+    update(): void {
+        for (let i = this.views.length - 1; i >= 0; i--) {
+            const view = this.views[i]
+            if (view.container.destroyed || view.camera.isDisposed()) {
+                this.unbind(view)
+                continue
+            }
+            this.updateView(view)
+        }
+        this.updateActiveCameras()
+    }
+
+    /**
+     * Finds the topmost view under a position in client coordinates
+     */
+    viewAt(clientX: number, clientY: number): CameraViewport | undefined {
+        this.renderer.events.mapPositionToPoint(point, clientX, clientY)
+        for (let i = this.views.length - 1; i >= 0; i--) {
+            if (this.views[i].contains(point.x, point.y)) {
+                return this.views[i]
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * Camera receiving Babylon input at a position in client coordinates
+     * Outside of the views, the first active camera without a binding, if any
+     */
+    cameraAt(clientX: number, clientY: number): Camera | null {
+        const view = this.viewAt(clientX, clientY)
+        if (view) {
+            return view.camera
+        }
+        if (!this.views.length) {
+            return this.scene.activeCamera
+        }
+        return this.scene.activeCameras?.find(camera => !this.get(camera)) ?? null
+    }
+
+    /**
+     * Points Babylon's picking at the view under the pointer
+     */
+    hover(clientX: number, clientY: number): void {
+        if (this.views.length) {
+            this.scene.cameraToUseForPointers = this.cameraAt(clientX, clientY)
+        }
+    }
+
+    /**
+     * Makes the view under the pointer the active one and moves the camera controls to it
+     */
+    activate(clientX: number, clientY: number): void {
+        if (!this.views.length) {
+            return
+        }
+        this.hover(clientX, clientY)
+        const view = this.viewAt(clientX, clientY)
+        if (view === this.active) {
+            return
+        }
+        this.deactivate()
+        this.active = view
+        if (view?.options.controls) {
+            view.camera.attachControl()
+        }
+    }
+
+    private deactivate(): void {
+        if (this.active?.options.controls && !this.active.camera.isDisposed()) {
+            this.active.camera.detachControl()
+        }
+        this.active = undefined
+    }
+
+    private updateView(view: CameraViewport): void {
+        const { container, options, bounds } = view
+        const { screen } = this.renderer
+        container.getBounds(false).rectangle.copyTo(bounds)
+
+        // hidden and masked ancestors hide and clip the view
+        let visible = true
+        for (let node: Container | null = container; node; node = node.parent) {
+            if (!node.visible || !node.renderable) {
+                visible = false
+                break
+            }
+            if (node.mask instanceof Container) {
+                node.mask.getBounds(false).rectangle.copyTo(maskBounds)
+                bounds.fit(maskBounds)
+            }
+        }
+        bounds.pad(-options.padding)
+        bounds.fit(screen)
+        view.visible = visible && bounds.width > 0 && bounds.height > 0
+        if (!view.visible) {
+            return
+        }
+
+        // Babylon viewports start at the bottom, PIXI coordinates at the top
+        let left = bounds.x / screen.width
+        let right = bounds.right / screen.width
+        let top = bounds.y / screen.height
+        let bottom = bounds.bottom / screen.height
+        if (options.pixelSnap) {
+            const engine = this.scene.getEngine()
+            const width = engine.getRenderWidth()
+            const height = engine.getRenderHeight()
+            left = Math.round(left * width) / width
+            right = Math.round(right * width) / width
+            top = Math.round(top * height) / height
+            bottom = Math.round(bottom * height) / height
+        }
+        const viewport = view.camera.viewport
+        const x = left
+        const y = 1 - bottom
+        const width = right - left
+        const height = bottom - top
+        if (
+            viewport.x !== x ||
+            viewport.y !== y ||
+            viewport.width !== width ||
+            viewport.height !== height
+        ) {
+            view.camera.viewport = new Viewport(x, y, width, height)
+        }
+    }
+
+    /**
+     * Keeps the cameras without a binding first, then the visible views in binding order
+     */
+    private updateActiveCameras(): void {
+        const { scene } = this
+        const current = scene.activeCameras ?? []
+        const cameras = [
+            ...current.filter(camera => !this.get(camera)),
+            ...this.views.filter(view => view.visible).map(view => view.camera),
+        ]
+        if (
+            cameras.length !== current.length ||
+            cameras.some((camera, index) => camera !== current[index])
+        ) {
+            scene.activeCameras = cameras
+        }
+    }
+}
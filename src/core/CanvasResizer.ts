@@ -0,0 +1,145 @@
+import { Engine } from '@babylonjs/core/Engines/engine'
+import { Renderer } from 'pixi.js'
+
+export interface ResizeInfo {
+    /** CSS width of the canvas */
+    width: number
+    /** CSS height of the canvas */
+    height: number
+    /** Resolution shared by both renderers */
+    resolution: number
+}
+
+export interface CanvasResizerOptions {
+    /** Element or window the canvas should fill, defaults to the canvas' own CSS size */
+    resizeTo?: HTMLElement | Window
+    /** Upper bound for the device pixel ratio used as resolution */
+    maxResolution: number
+    /** Fixed resolution, disables device pixel ratio tracking */
+    resolution?: number
+}
+
+/**
+ * Keeps the Babylon engine and the PIXI renderer at the same size and resolution
+ *
+ * Watches the resize target with a ResizeObserver (or window resize events) and the
+ * device pixel ratio with a media query, then resizes both renderers together.
+ */
+export class CanvasResizer {
+    /** Last applied size */
+    public info: ResizeInfo = { width: 0, height: 0, resolution: 1 }
+
+    private resizeObserver?: ResizeObserver
+    private mediaQuery?: MediaQueryList
+    private readonly onChange = () => this.resize()
+    private readonly onResolutionChange = () => {
+        this.watchResolution()
+        this.resize()
+    }
+
+    constructor(
+        public readonly canvas: HTMLCanvasElement,
+        private readonly engine: Engine,
+        private readonly renderer: Renderer,
+        private readonly options: CanvasResizerOptions,
+        private readonly onResize: (info: ResizeInfo) => void
+    ) {}
+
+    /**
+     * Current resolution, the device pixel ratio capped by `maxResolution`
+     */
+    get resolution(): number {
+        return this.options.resolution ?? Math.min(devicePixelRatio, this.options.maxResolution)
+    }
+
+    /**
+     * Starts watching the resize target and the device pixel ratio
+     */
+    observe(): void {
+        const { resizeTo } = this.options
+        if (resizeTo === window) {
+            window.addEventListener('resize', this.onChange)
+        } else {
+            this.resizeObserver = new ResizeObserver(this.onChange)
+            this.resizeObserver.observe((resizeTo as HTMLElement | undefined) ?? this.canvas)
+        }
+        this.watchResolution()
+    }
+
+    /**
+     * Resizes both renderers to the current size of the resize target
+     */
+    resize(): void {
+        const { resizeTo } = this.options
+        const { canvas, engine, renderer } = this
+        let width: number
+        let height: number
+        if (resizeTo === window) {
+            width = window.innerWidth
+            height = window.innerHeight
+        } else if (resizeTo) {
+            width = (resizeTo as HTMLElement).clientWidth
+            height = (resizeTo as HTMLElement).clientHeight
+        } else {
+            width = canvas.clientWidth
+            height = canvas.clientHeight
+        }
+        const resolution = this.resolution
+        const { info } = this
+        if (info.width === width && info.height === height && info.resolution === resolution) {
+            return
+        }
+        if (resizeTo) {
+            canvas.style.width = `${width}px`
+            canvas.style.height = `${height}px`
+        }
+
+        // PIXI decides the drawing buffer size, Babylon follows it exactly
+        engine.setHardwareScalingLevel(1 / resolution)
+        renderer.resize(width, height, resolution)
+        engine.setSize(canvas.width, canvas.height, true)
+
+        this.info = { width, height, resolution }
+        this.onResize(this.info)
+    }
+
+    /**
+     * Stops watching for size and resolution changes
+     */
+    disconnect(): void {
+        window.removeEventListener('resize', this.onChange)
+        this.resizeObserver?.disconnect()
+        this.resizeObserver = undefined
+        this.mediaQuery?.removeEventListener('change', this.onResolutionChange)
+        this.mediaQuery = undefined
+    }
+
+    /**
+     * A resolution media query only matches one ratio, so it is recreated after every change
+     */
+    private watchResolution(): void {
+        this.mediaQuery?.removeEventListener('change', this.onResolutionChange)
+        this.mediaQuery = undefined
+        if (this.options.resolution !== undefined) {
+            return
+        }
+        this.mediaQuery = matchMedia(`(resolution: ${devicePixelRatio}dppx)`)
+        this.mediaQuery.addEventListener('change', this.onResolutionChange)
+    }
+}
+
+/**
+ * Pins the CSS size of a canvas whose layout size follows its width/height attributes,
+ * otherwise every drawing buffer resize would feed back into the observed CSS size.
+ * Must run before either renderer touches the drawing buffer.
+ */
+export function pinIntrinsicCanvasSize(canvas: HTMLCanvasElement): void {
+    const { clientWidth, clientHeight } = canvas
+    canvas.width += 1
+    const intrinsic = canvas.clientWidth !== clientWidth
+    canvas.width -= 1
+    if (intrinsic) {
+        canvas.style.width = `${clientWidth}px`
+        canvas.style.height = `${clientHeight}px`
+    }
+}
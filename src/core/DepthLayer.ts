@@ -0,0 +1,231 @@
+import { Camera } from '@babylonjs/core/Cameras/camera'
+import { Container, Renderer } from 'pixi.js'
+
+import { PixiBabylonApplication } from './PixiBabylonApp.js'
+import { PixiLayer, PixiLayerOptions } from './PixiLayer.js'
+import { WorldAnchor, WorldAnchorOptions, WorldAnchorTarget } from './WorldAnchorManager.js'
+
+export interface DepthObjectOptions {
+    /** Node or world position the display object follows and takes its depth from */
+    target?: WorldAnchorTarget
+    /** Options of the world anchor following the target */
+    anchor?: WorldAnchorOptions
+    /** Distance in front of the camera in world units, used without a target, defaults to 1 */
+    z?: number
+    /** Whether scene geometry hides the display object, false draws it on top, defaults to true */
+    depthTest?: boolean
+    /** Whether the display object writes its depth, hiding transparent meshes behind it */
+    depthWrite?: boolean
+}
+
+/**
+ * A display object of a DepthLayer with its depth settings
+ */
+export class DepthObject {
+    /** Distance in front of the camera in world units, used without an anchor */
+    public z: number
+
+    /** Whether scene geometry hides the display object, false draws it on top */
+    public depthTest: boolean
+
+    /**
+     * Whether the display object writes its depth, hiding transparent meshes behind it
+     * The whole display object writes, transparent pixels included
+     */
+    public depthWrite: boolean
+
+    /** Depth in the depth buffer during the last draw, 0 at the near plane */
+    public depth = 0
+
+    constructor(
+        public readonly displayObject: Container,
+        public readonly anchor: WorldAnchor | undefined,
+        options: DepthObjectOptions = {}
+    ) {
+        this.z = options.z ?? 1
+        this.depthTest = options.depthTest ?? true
+        this.depthWrite = options.depthWrite ?? false
+    }
+}
+
+/**
+ * A PIXI layer drawn inside the Babylon scene, its display objects hidden by 3D geometry
+ *
+ * Each display object gets a single depth, from the node or position it is anchored to or from an
+ * explicit distance to the camera, and is tested against Babylon's depth buffer at that depth.
+ * Depth-tested objects are drawn inside their rendering group after its opaque and alpha-tested
+ * meshes and before its transparent meshes, which Babylon sorts and blends over them.
+ * Objects with `depthTest` disabled are drawn on top once the rendering group is done.
+ * Within each pass, farther objects are drawn first.
+ *
+ * Every display object is rendered on its own with its local transform, so the root has to stay
+ * untransformed.
+ * With several active cameras, objects are drawn for the first camera rendering the group.
+ * While the scene is rendered offscreen for `sceneLayer` filters, the layer is drawn over the
+ * whole scene.
+ *
+ * @example
+ * ```typescript
+ * const bubbles = app.layers.add(new DepthLayer('bubbles'))
+ *
+ * // disappears behind walls
+ * bubbles.add(speechBubble, { target: character, anchor: { worldOffset: new Vector3(0, 2, 0) } })
+ * // always visible
+ * bubbles.add(questMarker, { target: questGiver, depthTest: false })
+ * ```
+ */
+export class DepthLayer extends PixiLayer {
+    private readonly objects: DepthObject[] = []
+    private depthPassDrawn = false
+
+    /**
+     * @param name - Unique name of the layer
+     * @param options - Layer options, the rendering group defaults to 0
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
+     */
+    constructor(
+        name: string,
+        options: PixiLayerOptions = {},
+        private readonly pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
+    ) {
+        if (!pixiBabylonApplication) {
+            throw new Error('not context provide!')
+        }
+        super(name, new Container(), {
+            ...options,
+            renderingGroupId: options.renderingGroupId ?? 0,
+        })
+    }
+
+    get isDepthTested(): boolean {
+        return true
+    }
+
+    /** Number of display objects in the layer */
+    get count(): number {
+        return this.objects.length
+    }
+
+    /**
+     * Adds a display object to the root with a depth
+     * A target attaches the display object to it through `app.anchors`
+     */
+    add(displayObject: Container, options: DepthObjectOptions = {}): DepthObject {
+        this.remove(displayObject)
+        const { anchors } = this.pixiBabylonApplication
+        this.root.addChild(displayObject)
+        const anchor = options.target
+            ? anchors.attach(displayObject, options.target, options.anchor)
+            : undefined
+        const object = new DepthObject(displayObject, anchor, options)
+        this.objects.push(object)
+        return object
+    }
+
+    /**
+     * Removes a display object from the root and detaches its anchor
+     */
+    remove(objectOrDisplayObject: DepthObject | Container): void {
+        const index = this.objects.findIndex(
+            object =>
+                object === objectOrDisplayObject || object.displayObject === objectOrDisplayObject
+        )
+        if (index < 0) {
+            return
+        }
+        const [object] = this.objects.splice(index, 1)
+        if (object.anchor) {
+            this.pixiBabylonApplication.anchors.detach(object.anchor)
+        }
+        if (!object.displayObject.destroyed && object.displayObject.parent === this.root) {
+            this.root.removeChild(object.displayObject)
+        }
+    }
+
+    get(displayObject: Container): DepthObject | undefined {
+        return this.objects.find(object => object.displayObject === displayObject)
+    }
+
+    /**
+     * Draws the depth-tested display objects against the depth buffer
+     * Called by the application before the transparent meshes of the rendering group
+     */
+    renderDepthTested(renderer: Renderer): void {
+        this.draw(renderer, true)
+        this.depthPassDrawn = true
+    }
+
+    /**
+     * Draws the display objects on top of the scene
+     * Depth-tested objects are drawn first when their rendering group was not rendered
+     */
+    render(renderer: Renderer): void {
+        if (!this.depthPassDrawn) {
+            this.draw(renderer, true)
+        }
+        this.draw(renderer, false)
+        this.depthPassDrawn = false
+    }
+
+    /**
+     * Depth of a point at a distance in front of the camera in the depth buffer
+     */
+    static cameraDistanceToDepth(camera: Camera, distance: number): number {
+        const scene = camera.getScene()
+        const m = camera.getProjectionMatrix().m
+        const viewZ = scene.useRightHandedSystem ? -distance : distance
+        const ndcZ = (viewZ * m[10] + m[14]) / (viewZ * m[11] + m[15] || 1e-6)
+        return scene.getEngine().isNDCHalfZRange ? ndcZ : (ndcZ + 1) / 2
+    }
+
+    private draw(renderer: Renderer, depthTested: boolean): void {
+        const { gl, scene, anchors } = this.pixiBabylonApplication
+        const camera = scene.activeCamera
+        this.prune()
+        const objects = this.objects.filter(object => object.depthTest === depthTested)
+        if (!camera || !objects.length) {
+            return
+        }
+        objects.forEach(object => {
+            if (object.anchor) {
+                anchors.updateAnchor(object.anchor)
+            }
+            object.depth = object.anchor
+                ? object.anchor.depth
+                : DepthLayer.cameraDistanceToDepth(camera, object.z)
+        })
+        const reverse = scene.getEngine().useReverseDepthBuffer
+        objects.sort((a, b) => (reverse ? a.depth - b.depth : b.depth - a.depth))
+
+        if (depthTested) {
+            gl.enable(gl.DEPTH_TEST)
+            gl.depthFunc(reverse ? gl.GEQUAL : gl.LEQUAL)
+        }
+        for (const object of objects) {
+            if (depthTested) {
+                // PIXI draws at z = 0, the range puts every fragment at the depth of the object
+                const depth = Math.min(Math.max(object.depth, 0), 1)
+                gl.depthRange(depth, depth)
+                gl.depthMask(object.depthWrite)
+            }
+            renderer.render({ container: object.displayObject, clear: false })
+        }
+        if (depthTested) {
+            gl.depthRange(0, 1)
+            gl.depthMask(false)
+            gl.disable(gl.DEPTH_TEST)
+        }
+    }
+
+    /**
+     * Forgets display objects that were destroyed or moved out of the root
+     */
+    private prune(): void {
+        for (let i = this.objects.length - 1; i >= 0; i--) {
+            const { displayObject } = this.objects[i]
+            if (displayObject.destroyed || displayObject.parent !== this.root) {
+                this.remove(this.objects[i])
+            }
+        }
+    }
+}
@@ -0,0 +1,165 @@
+import { AbstractEngine } from '@babylonjs/core/Engines/abstractEngine'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { FRAME_PHASES, FrameScheduler } from './FrameScheduler.js'
+
+/**
+ * Engine whose render loop only runs when the test calls `frame()`
+ */
+class MockEngine {
+    readonly loops = new Set<() => void>()
+
+    runRenderLoop(loop: () => void): void {
+        this.loops.add(loop)
+    }
+
+    stopRenderLoop(loop: () => void): void {
+        this.loops.delete(loop)
+    }
+
+    frame(): void {
+        ;[...this.loops].forEach(loop => loop())
+    }
+}
+
+describe('FrameScheduler', () => {
+    let engine: MockEngine
+    let now: number
+
+    beforeEach(() => {
+        engine = new MockEngine()
+        now = 0
+        vi.spyOn(performance, 'now').mockImplementation(() => now)
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    function createScheduler(options = {}) {
+        return new FrameScheduler(engine as unknown as AbstractEngine, options)
+    }
+
+    it('runs the phases in order, higher priorities first', () => {
+        const scheduler = createScheduler()
+        const calls: string[] = []
+        ;[...FRAME_PHASES].reverse().forEach(phase => {
+            scheduler.add(phase, () => calls.push(phase))
+        })
+        scheduler.add('update', () => calls.push('update:late'), -1)
+        scheduler.add('update', () => calls.push('update:early'), 1)
+
+        scheduler.renderFrame()
+
+        expect(calls).toEqual([
+            'update:early',
+            'update',
+            'update:late',
+            'textureSync',
+            'babylonRender',
+            'pixiLayers',
+            'post',
+        ])
+    })
+
+    it('notifies before and after each phase', () => {
+        const scheduler = createScheduler()
+        const calls: string[] = []
+        scheduler.beforePhaseObservable.add(phase => calls.push(`before:${phase}`))
+        scheduler.afterPhaseObservable.add(phase => calls.push(`after:${phase}`))
+        scheduler.add('textureSync', () => calls.push('textureSync'))
+
+        scheduler.renderFrame()
+
+        expect(calls.slice(2, 5)).toEqual([
+            'before:textureSync',
+            'textureSync',
+            'after:textureSync',
+        ])
+        expect(calls).toHaveLength(FRAME_PHASES.length * 2 + 1)
+    })
+
+    it('passes the time since the previous frame', () => {
+        const scheduler = createScheduler()
+        const deltas: number[] = []
+        scheduler.add('update', ({ deltaTime }) => deltas.push(deltaTime))
+
+        scheduler.renderFrame(100)
+        scheduler.renderFrame(116)
+
+        expect(deltas).toEqual([0, 16])
+        expect(scheduler.frame).toBe(2)
+    })
+
+    it('removes hooks', () => {
+        const scheduler = createScheduler()
+        const callback = vi.fn()
+        const hook = scheduler.add('post', callback)
+        scheduler.remove(hook)
+
+        scheduler.renderFrame()
+
+        expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('renders every loop iteration in continuous mode', () => {
+        const scheduler = createScheduler()
+        const callback = vi.fn()
+        scheduler.add('update', callback)
+        scheduler.start()
+
+        engine.frame()
+        engine.frame()
+
+        expect(callback).toHaveBeenCalledTimes(2)
+        expect(engine.loops.size).toBe(1)
+    })
+
+    it('stops the loop in onDemand mode until invalidate()', () => {
+        const scheduler = createScheduler({ renderMode: 'onDemand' })
+        const callback = vi.fn()
+        scheduler.add('update', callback)
+        scheduler.start()
+
+        engine.frame() // the first frame is always rendered
+        engine.frame() // nothing changed, the loop stops
+        expect(callback).toHaveBeenCalledTimes(1)
+        expect(engine.loops.size).toBe(0)
+
+        scheduler.invalidate()
+        expect(engine.loops.size).toBe(1)
+        engine.frame()
+        expect(callback).toHaveBeenCalledTimes(2)
+    })
+
+    it('skips loop iterations faster than the target frame rate', () => {
+        const scheduler = createScheduler({ targetFps: 30 })
+        const callback = vi.fn()
+        scheduler.add('update', callback)
+        scheduler.start()
+
+        engine.frame()
+        now = 16
+        engine.frame()
+        now = 33
+        engine.frame()
+
+        expect(callback).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not render while paused', () => {
+        const scheduler = createScheduler()
+        const callback = vi.fn()
+        scheduler.add('update', callback)
+        scheduler.start()
+        scheduler.pause()
+
+        scheduler.invalidate()
+        engine.frame()
+        expect(callback).not.toHaveBeenCalled()
+
+        scheduler.resume()
+        engine.frame()
+        expect(callback).toHaveBeenCalledTimes(1)
+    })
+})
@@ -0,0 +1,238 @@
+import { AbstractEngine } from '@babylonjs/core/Engines/abstractEngine'
+import { Observable } from '@babylonjs/core/Misc/observable'
+
+/**
+ * Phases of a frame, in the order they run
+ * - `update`: game logic, animations and `beforeRenderObservable`
+ * - `textureSync`: PixiTextures are re-rendered
+ * - `babylonRender`: the Babylon scene is rendered, with underlays and rendering group layers
+ * - `pixiLayers`: the PIXI layers drawn in front of the scene
+ * - `post`: captures, stats and `afterRenderObservable`
+ */
+export type FramePhase = 'update' | 'textureSync' | 'babylonRender' | 'pixiLayers' | 'post'
+
+/** Phases in the order they run */
+export const FRAME_PHASES: readonly FramePhase[] = [
+    'update',
+    'textureSync',
+    'babylonRender',
+    'pixiLayers',
+    'post',
+]
+
+/**
+ * How often frames are rendered
+ * - `continuous`: every animation frame, up to the target frame rate
+ * - `onDemand`: only after `invalidate()`, the render loop stops while nothing changes
+ */
+export type FrameRenderMode = 'continuous' | 'onDemand'
+
+/**
+ * Timing of the frame being rendered
+ */
+export interface FrameInfo {
+    /** Time of the frame, in milliseconds */
+    now: number
+    /** Time since the previous rendered frame, in milliseconds */
+    deltaTime: number
+    /** Number of frames rendered before this one */
+    frame: number
+}
+
+/**
+ * A callback registered on a phase
+ */
+export interface FrameHook {
+    readonly phase: FramePhase
+    /** Hooks with a higher priority run first, ties run in registration order */
+    readonly priority: number
+    readonly callback: (info: FrameInfo) => void
+}
+
+export interface FrameSchedulerOptions {
+    /** Maximum number of frames per second, defaults to no limit */
+    targetFps?: number
+    /** How often frames are rendered, defaults to `continuous` */
+    renderMode?: FrameRenderMode
+}
+
+/**
+ * Drives the render loop of an application through explicitly ordered phases
+ *
+ * The scheduler owns the Babylon render loop. Frames can be limited to a target frame rate,
+ * paused, or only rendered on demand, in which case the render loop is stopped until the next
+ * `invalidate()` so an idle tool UI costs nothing.
+ *
+ * @example
+ * ```typescript
+ * app.scheduler.add('update', ({ deltaTime }) => player.update(deltaTime))
+ * app.scheduler.add('post', () => stats.end(), -100)
+ *
+ * app.scheduler.renderMode = 'onDemand'
+ * slider.on('change', () => app.scheduler.invalidate())
+ * ```
+ */
+export class FrameScheduler {
+    /** Maximum number of frames per second */
+    public targetFps: number
+
+    /** Number of frames rendered so far */
+    public frame = 0
+
+    /** Observable that fires before the hooks of each phase run */
+    public readonly beforePhaseObservable = new Observable<FramePhase>()
+
+    /** Observable that fires after the hooks of each phase ran */
+    public readonly afterPhaseObservable = new Observable<FramePhase>()
+
+    private mode: FrameRenderMode
+    private readonly hooks = new Map<FramePhase, FrameHook[]>()
+    private started = false
+    private looping = false
+    private isPaused = false
+    private dirty = true
+    private lastFrameTime?: number
+
+    constructor(
+        public readonly engine: AbstractEngine,
+        options: FrameSchedulerOptions = {}
+    ) {
+        this.targetFps = options.targetFps ?? Infinity
+        this.mode = options.renderMode ?? 'continuous'
+        FRAME_PHASES.forEach(phase => this.hooks.set(phase, []))
+    }
+
+    /** How often frames are rendered */
+    get renderMode(): FrameRenderMode {
+        return this.mode
+    }
+
+    set renderMode(mode: FrameRenderMode) {
+        this.mode = mode
+        this.invalidate()
+    }
+
+    /** Whether rendering is paused */
+    get paused(): boolean {
+        return this.isPaused
+    }
+
+    /**
+     * Registers a callback on a phase
+     *
+     * @param phase - Phase the callback runs in
+     * @param callback - Called once per rendered frame
+     * @param priority - Higher priorities run first within the phase
+     * @returns The hook, to pass to `remove()`
+     */
+    add(phase: FramePhase, callback: (info: FrameInfo) => void, priority = 0): FrameHook {
+        const hook: FrameHook = { phase, priority, callback }
+        const hooks = this.hooks.get(phase)!
+        let index = hooks.length
+        while (index > 0 && hooks[index - 1].priority < priority) {
+            index--
+        }
+        hooks.splice(index, 0, hook)
+        return hook
+    }
+
+    remove(hook: FrameHook): void {
+        const hooks = this.hooks.get(hook.phase)!
+        const index = hooks.indexOf(hook)
+        if (index >= 0) {
+            hooks.splice(index, 1)
+        }
+    }
+
+    /**
+     * Starts rendering frames
+     */
+    start(): void {
+        this.started = true
+        this.invalidate()
+    }
+
+    /**
+     * Stops rendering frames, `start()` renders again
+     */
+    stop(): void {
+        this.started = false
+        this.stopLoop()
+        this.lastFrameTime = undefined
+    }
+
+    /**
+     * Stops rendering frames until `resume()`, time does not advance meanwhile
+     */
+    pause(): void {
+        this.isPaused = true
+        this.stopLoop()
+    }
+
+    resume(): void {
+        if (!this.isPaused) {
+            return
+        }
+        this.isPaused = false
+        // the time spent paused is not a frame delta
+        this.lastFrameTime = undefined
+        this.invalidate()
+    }
+
+    /**
+     * Requests a new frame, needed in `onDemand` mode after something changed
+     */
+    invalidate(): void {
+        this.dirty = true
+        if (this.started && !this.isPaused && !this.looping) {
+            this.looping = true
+            this.engine.runRenderLoop(this.loop)
+        }
+    }
+
+    /**
+     * Runs every phase of a frame right away, regardless of the render mode and the target fps
+     */
+    renderFrame(now = performance.now()): void {
+        const info: FrameInfo = {
+            now,
+            deltaTime: this.lastFrameTime === undefined ? 0 : now - this.lastFrameTime,
+            frame: this.frame,
+        }
+        this.lastFrameTime = now
+        this.dirty = false
+        for (const phase of FRAME_PHASES) {
+            this.beforePhaseObservable.notifyObservers(phase)
+            // hooks may remove themselves while running
+            for (const hook of this.hooks.get(phase)!.slice()) {
+                hook.callback(info)
+            }
+            this.afterPhaseObservable.notifyObservers(phase)
+        }
+        this.frame++
+    }
+
+    private stopLoop(): void {
+        if (this.looping) {
+            this.looping = false
+            this.engine.stopRenderLoop(this.loop)
+        }
+    }
+
+    private readonly loop = () => {
+        if (this.mode === 'onDemand' && !this.dirty) {
+            this.stopLoop()
+            return
+        }
+        const now = performance.now()
+        if (this.lastFrameTime !== undefined && this.targetFps < Infinity) {
+            const interval = 1000 / this.targetFps
+            const elapsed = now - this.lastFrameTime
+            // animation frames jitter, a millisecond early still counts as on time
+            if (elapsed < interval - 1) {
+                return
+            }
+        }
+        this.renderFrame(now)
+    }
+}
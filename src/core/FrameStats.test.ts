@@ -0,0 +1,246 @@
+import { AbstractEngine } from '@babylonjs/core/Engines/abstractEngine'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { PixiTexture } from '../integration/PixiTexture.js'
+
+import { FrameScheduler } from './FrameScheduler.js'
+import { FrameStats, FrameStatsOptions } from './FrameStats.js'
+import type { PixiBabylonApplication } from './PixiBabylonApp.js'
+
+// the overlay draws with PIXI, which needs a browser to load
+vi.mock('./FrameStatsOverlay.js', () => ({ FrameStatsOverlay: class {} }))
+
+const TIME_ELAPSED_EXT = 1
+const GPU_DISJOINT_EXT = 2
+
+/**
+ * WebGL2 context that counts the draws it receives and resolves timer queries on request
+ */
+class MockContext {
+    readonly QUERY_RESULT = 3
+    readonly QUERY_RESULT_AVAILABLE = 4
+
+    draws = 0
+    timerQueries = true
+    disjoint = false
+    readonly queries: { available: boolean; result: number; deleted: boolean }[] = []
+
+    drawArrays(): void {
+        this.draws++
+    }
+
+    drawElements(): void {
+        this.draws++
+    }
+
+    drawArraysInstanced(): void {
+        this.draws++
+    }
+
+    getExtension(name: string): unknown {
+        if (name !== 'EXT_disjoint_timer_query_webgl2' || !this.timerQueries) {
+            return null
+        }
+        return { TIME_ELAPSED_EXT, GPU_DISJOINT_EXT }
+    }
+
+    createQuery() {
+        const query = { available: false, result: 0, deleted: false }
+        this.queries.push(query)
+        return query
+    }
+
+    beginQuery(): void {}
+
+    endQuery(): void {}
+
+    deleteQuery(query: MockContext['queries'][number]): void {
+        query.deleted = true
+    }
+
+    getQueryParameter(query: MockContext['queries'][number], pname: number): unknown {
+        return pname === this.QUERY_RESULT ? query.result : query.available
+    }
+
+    getParameter(pname: number): unknown {
+        return pname === GPU_DISJOINT_EXT ? this.disjoint : null
+    }
+
+    /** Makes every query so far available, each measured `nanoseconds` */
+    resolveQueries(nanoseconds: number): void {
+        this.queries.forEach(query => {
+            query.available = true
+            query.result = nanoseconds
+        })
+    }
+}
+
+describe('FrameStats', () => {
+    let now: number
+    let gl: MockContext
+    let scheduler: FrameScheduler
+    let app: PixiBabylonApplication
+
+    beforeEach(() => {
+        now = 0
+        vi.spyOn(performance, 'now').mockImplementation(() => now)
+        gl = new MockContext()
+        scheduler = new FrameScheduler({} as AbstractEngine)
+        app = {
+            gl,
+            scheduler,
+            pixiTextures: new Set(),
+            textureAtlases: new Set(),
+            layeredTextures: new Set(),
+        } as unknown as PixiBabylonApplication
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    function createStats(options: FrameStatsOptions = {}) {
+        const stats = new FrameStats(app, { gpuTimers: false, ...options })
+        stats.enabled = true
+        return stats
+    }
+
+    it('times every phase and the whole frame on the CPU', () => {
+        const stats = createStats()
+        scheduler.add('update', () => (now += 2))
+        scheduler.add('babylonRender', () => (now += 5))
+        scheduler.add('pixiLayers', () => (now += 3))
+
+        scheduler.renderFrame()
+
+        expect(stats.last).toMatchObject({
+            frame: 0,
+            time: 0,
+            frameTime: 10,
+            cpuTime: { update: 2, textureSync: 0, babylonRender: 5, pixiLayers: 3, post: 0 },
+        })
+        expect(stats.last!.gpuTime).toBeUndefined()
+    })
+
+    it('counts the draw calls of each phase', () => {
+        const stats = createStats()
+        const glContext = gl as unknown as WebGL2RenderingContext
+        scheduler.add('babylonRender', () => {
+            glContext.drawElements(0, 0, 0, 0)
+            glContext.drawArraysInstanced(0, 0, 0, 0)
+        })
+        scheduler.add('pixiLayers', () => glContext.drawArrays(0, 0, 0))
+
+        scheduler.renderFrame()
+        scheduler.renderFrame()
+
+        expect(stats.history.map(sample => sample.drawCalls)).toEqual([
+            { update: 0, textureSync: 0, babylonRender: 2, pixiLayers: 1, post: 0 },
+            { update: 0, textureSync: 0, babylonRender: 2, pixiLayers: 1, post: 0 },
+        ])
+        // the draws still reach the context
+        expect(gl.draws).toBe(6)
+    })
+
+    it('restores the draw functions of the context when disabled', () => {
+        const stats = createStats()
+        expect(Object.keys(gl)).toContain('drawArrays')
+
+        stats.enabled = false
+        scheduler.renderFrame()
+
+        expect(Object.keys(gl)).not.toContain('drawArrays')
+        expect(gl.drawArrays).toBe(MockContext.prototype.drawArrays)
+        expect(stats.history).toEqual([])
+    })
+
+    it('counts the texture syncs of each frame', () => {
+        const stats = createStats()
+        let syncs = 2
+        scheduler.add('textureSync', () => {
+            for (let i = 0; i < syncs; i++) {
+                stats.recordTextureSync(1.5)
+            }
+        })
+
+        scheduler.renderFrame()
+        syncs = 1
+        scheduler.renderFrame()
+
+        expect(
+            stats.history.map(({ textureSyncs, textureSyncTime }) => [
+                textureSyncs,
+                textureSyncTime,
+            ])
+        ).toEqual([
+            [2, 3],
+            [1, 1.5],
+        ])
+
+        stats.enabled = false
+        stats.recordTextureSync(1)
+        stats.enabled = true
+        scheduler.renderFrame()
+        expect(stats.last!.textureSyncs).toBe(1)
+    })
+
+    it('sums the memory of the live textures', () => {
+        const stats = createStats()
+        const texture = (width: number, height: number, alphaMode: string) =>
+            ({ renderSize: { width, height }, options: { alphaMode } }) as unknown as PixiTexture
+        app.pixiTextures.add(texture(16, 16, 'premultiplied'))
+        // straight alpha textures keep a second texture for the filter pass
+        app.pixiTextures.add(texture(8, 8, 'straight'))
+
+        scheduler.renderFrame()
+
+        expect(stats.last!.textureMemory).toBe(16 * 16 * 4 + 8 * 8 * 4 * 2)
+    })
+
+    it('reads the GPU time of each phase once the timer queries resolved', () => {
+        const stats = createStats({ gpuTimers: true })
+
+        scheduler.renderFrame()
+        expect(gl.queries).toHaveLength(5)
+        scheduler.renderFrame() // the queries are not available yet
+        expect(stats.history[0].gpuTime).toBeUndefined()
+
+        gl.resolveQueries(2e6)
+        scheduler.renderFrame()
+
+        expect(stats.history[0].gpuTime).toEqual({
+            update: 2,
+            textureSync: 2,
+            babylonRender: 2,
+            pixiLayers: 2,
+            post: 2,
+        })
+        expect(stats.history[1].gpuTime).toEqual(stats.history[0].gpuTime)
+        expect(gl.queries.slice(0, 10).every(query => query.deleted)).toBe(true)
+    })
+
+    it('drops the GPU time of disjoint frames', () => {
+        const stats = createStats({ gpuTimers: true })
+
+        scheduler.renderFrame()
+        gl.resolveQueries(2e6)
+        gl.disjoint = true
+        scheduler.renderFrame()
+
+        expect(stats.history[0].gpuTime).toBeUndefined()
+        expect(gl.queries.slice(0, 5).every(query => query.deleted)).toBe(true)
+    })
+
+    it('keeps the latest samples and averages them', () => {
+        const stats = createStats({ historySize: 2 })
+        scheduler.add('update', () => (now += scheduler.frame))
+
+        scheduler.renderFrame()
+        scheduler.renderFrame()
+        scheduler.renderFrame()
+
+        expect(stats.history.map(sample => sample.frame)).toEqual([1, 2])
+        expect(stats.average(sample => sample.cpuTime.update)).toBe(1.5)
+        expect(stats.average(sample => sample.cpuTime.update, 1)).toBe(2)
+    })
+})
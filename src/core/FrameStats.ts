@@ -0,0 +1,381 @@
+import { Observable, Observer } from '@babylonjs/core/Misc/observable'
+
+import { FRAME_PHASES, FramePhase } from './FrameScheduler.js'
+import { FrameStatsOverlay, FrameStatsOverlayOptions } from './FrameStatsOverlay.js'
+import type { PixiBabylonApplication } from './PixiBabylonApp.js'
+import type { PixiLayer } from './PixiLayer.js'
+
+/**
+ * Measurements of one rendered frame
+ */
+export interface FrameStatsSample {
+    /** Number of the frame */
+    frame: number
+    /** Time the frame started, in milliseconds */
+    time: number
+    /** CPU time of the whole frame, in milliseconds */
+    frameTime: number
+    /** CPU time of each phase, in milliseconds */
+    cpuTime: Record<FramePhase, number>
+    /**
+     * GPU time of each phase in milliseconds, filled in a few frames later once the timer
+     * queries resolved, undefined without timer queries
+     */
+    gpuTime?: Record<FramePhase, number>
+    /** Draw calls of each phase, Babylon draws in `babylonRender`, PIXI in `pixiLayers` */
+    drawCalls: Record<FramePhase, number>
+    /** Number of texture syncs, wherever they ran */
+    textureSyncs: number
+    /** CPU time of the syncs, in milliseconds */
+    textureSyncTime: number
+    /** Bytes of GPU memory held by live PixiTextures, atlas pages, cube and array textures */
+    textureMemory: number
+}
+
+export interface FrameStatsOptions {
+    /** Number of samples kept in the history, defaults to 120 */
+    historySize?: number
+    /** Whether to measure GPU time with timer queries where available, defaults to true */
+    gpuTimers?: boolean
+    /** Whether to show the built-in overlay, defaults to false */
+    overlay?: boolean | FrameStatsOverlayOptions
+}
+
+interface GpuTimerExtension {
+    TIME_ELAPSED_EXT: number
+    GPU_DISJOINT_EXT: number
+}
+
+interface PendingGpuFrame {
+    sample: FrameStatsSample
+    queries: [FramePhase, WebGLQuery][]
+}
+
+/** WebGL calls counted as draw calls */
+const DRAW_FUNCTIONS = [
+    'drawArrays',
+    'drawElements',
+    'drawArraysInstanced',
+    'drawElementsInstanced',
+    'drawRangeElements',
+] as const
+
+/** Frames after which unresolved timer queries are given up */
+const MAX_PENDING_GPU_FRAMES = 8
+
+function phaseRecord(): Record<FramePhase, number> {
+    return { update: 0, textureSync: 0, babylonRender: 0, pixiLayers: 0, post: 0 }
+}
+
+/**
+ * Times each phase of the frames of an application and counts what they draw
+ *
+ * Phases are timed on the CPU around the hooks of the scheduler, and on the GPU with
+ * `EXT_disjoint_timer_query_webgl2` when the context supports it. Draw calls are counted on the
+ * shared context, so the phase they fall in tells which engine issued them. Samples are
+ * published at the end of each frame, tests can read them right after `app.step()`.
+ * Timer queries cannot overlap, disable them while Babylon's `EngineInstrumentation` measures
+ * GPU frame time.
+ *
+ * @example
+ * ```typescript
+ * app.stats.enabled = true
+ * app.step(16)
+ * expect(app.stats.last!.drawCalls.babylonRender).toBe(3)
+ *
+ * app.stats.showOverlay()
+ * ```
+ */
+export class FrameStats {
+    /** Number of samples kept in the history */
+    public historySize: number
+
+    /** Whether to measure GPU time with timer queries where available */
+    public gpuTimers: boolean
+
+    /** The latest samples, oldest first */
+    public readonly history: FrameStatsSample[] = []
+
+    /** Observable that fires with each sample at the end of its frame */
+    public readonly onSampleObservable = new Observable<FrameStatsSample>()
+
+    /** The overlay, while shown */
+    public overlay?: FrameStatsOverlay
+
+    private isEnabled = false
+    private current?: FrameStatsSample
+    private phaseStart = 0
+    private phaseDrawCalls = 0
+    private drawCallCount = 0
+    private textureSyncs = 0
+    private textureSyncTime = 0
+    private beforePhaseObserver?: Observer<FramePhase>
+    private afterPhaseObserver?: Observer<FramePhase>
+    private readonly drawFunctions = new Map<string, unknown>()
+    private timerExtension?: GpuTimerExtension | null
+    private readonly pendingGpuFrames: PendingGpuFrame[] = []
+    private gpuQueries: [FramePhase, WebGLQuery][] = []
+    private queryActive = false
+    private overlayLayer?: PixiLayer
+
+    constructor(
+        private readonly app: PixiBabylonApplication,
+        options: FrameStatsOptions = {}
+    ) {
+        this.historySize = options.historySize ?? 120
+        this.gpuTimers = options.gpuTimers ?? true
+    }
+
+    /** Whether frames are measured */
+    get enabled(): boolean {
+        return this.isEnabled
+    }
+
+    set enabled(enabled: boolean) {
+        if (enabled === this.isEnabled) {
+            return
+        }
+        this.isEnabled = enabled
+        if (enabled) {
+            this.instrument()
+        } else {
+            this.uninstrument()
+        }
+    }
+
+    /** The latest complete sample */
+    get last(): FrameStatsSample | undefined {
+        return this.history[this.history.length - 1]
+    }
+
+    /**
+     * Bytes held by live PixiTextures, doubled by their filter pass, by atlas pages and by cube
+     * and array textures along with their scratch texture
+     */
+    get textureMemory(): number {
+        let bytes = 0
+        this.app.pixiTextures.forEach(texture => {
+            const { width, height } = texture.renderSize
+            const passes = texture.options.alphaMode === 'straight' ? 2 : 1
+            bytes += width * height * 4 * passes
+        })
+        this.app.textureAtlases.forEach(atlas => {
+            atlas.pages.forEach(page => (bytes += page.size * page.size * 4))
+        })
+        this.app.layeredTextures.forEach(({ content }) => {
+            const { width, height } = content.renderSize
+            bytes += width * height * 4 * (content.roots.length + 1)
+        })
+        return bytes
+    }
+
+    /**
+     * Averages a measurement over the latest samples
+     *
+     * @param select - Picks the measurement of a sample
+     * @param frames - Number of samples to average, defaults to the whole history
+     */
+    average(select: (sample: FrameStatsSample) => number, frames = this.history.length): number {
+        const samples = this.history.slice(-frames)
+        if (!samples.length) {
+            return 0
+        }
+        return samples.reduce((sum, sample) => sum + select(sample), 0) / samples.length
+    }
+
+    /**
+     * Counts a texture sync, called by the textures at the end of `sync()`
+     *
+     * @param duration - CPU time of the sync, in milliseconds
+     */
+    recordTextureSync(duration: number): void {
+        if (this.isEnabled) {
+            this.textureSyncs++
+            this.textureSyncTime += duration
+        }
+    }
+
+    /**
+     * Shows the built-in overlay in a layer in front of everything else
+     * Measuring is enabled along with it
+     */
+    showOverlay(options: FrameStatsOverlayOptions = {}): FrameStatsOverlay {
+        this.enabled = true
+        if (!this.overlay) {
+            this.overlay = new FrameStatsOverlay(this, options)
+            this.overlayLayer = this.app.layers.create('stats', { order: Number.MAX_SAFE_INTEGER })
+            this.overlayLayer.root.addChild(this.overlay)
+        }
+        return this.overlay
+    }
+
+    hideOverlay(): void {
+        if (this.overlayLayer) {
+            this.app.layers.remove(this.overlayLayer.name)
+            this.overlayLayer.root.destroy({ children: true })
+            this.overlayLayer = undefined
+            this.overlay = undefined
+        }
+    }
+
+    /**
+     * Clears the history
+     */
+    reset(): void {
+        this.history.length = 0
+    }
+
+    dispose(): void {
+        this.hideOverlay()
+        this.enabled = false
+        this.onSampleObservable.clear()
+        this.reset()
+    }
+
+    private instrument(): void {
+        const { scheduler, gl } = this.app
+        this.beforePhaseObserver = scheduler.beforePhaseObservable.add(phase =>
+            this.beforePhase(phase)
+        )
+        this.afterPhaseObserver = scheduler.afterPhaseObservable.add(phase =>
+            this.afterPhase(phase)
+        )
+        const context = gl as unknown as Record<string, (...args: unknown[]) => unknown>
+        DRAW_FUNCTIONS.forEach(name => {
+            const draw = context[name]
+            if (typeof draw !== 'function') {
+                return
+            }
+            this.drawFunctions.set(name, Object.getOwnPropertyDescriptor(context, name))
+            context[name] = (...args: unknown[]) => {
+                this.drawCallCount++
+                return draw.apply(gl, args)
+            }
+        })
+    }
+
+    private uninstrument(): void {
+        this.beforePhaseObserver?.remove()
+        this.afterPhaseObserver?.remove()
+        const context = this.app.gl as unknown as Record<string, unknown>
+        this.drawFunctions.forEach((descriptor, name) => {
+            if (descriptor) {
+                Object.defineProperty(context, name, descriptor as PropertyDescriptor)
+            } else {
+                // the prototype method shows through again
+                delete context[name]
+            }
+        })
+        this.drawFunctions.clear()
+        this.pendingGpuFrames.forEach(({ queries }) => this.deleteQueries(queries))
+        this.pendingGpuFrames.length = 0
+        this.current = undefined
+    }
+
+    private beforePhase(phase: FramePhase): void {
+        const now = performance.now()
+        if (phase === FRAME_PHASES[0]) {
+            this.resolveGpuFrames()
+            this.current = {
+                frame: this.app.scheduler.frame,
+                time: now,
+                frameTime: 0,
+                cpuTime: phaseRecord(),
+                drawCalls: phaseRecord(),
+                textureSyncs: 0,
+                textureSyncTime: 0,
+                textureMemory: 0,
+            }
+            this.textureSyncs = 0
+            this.textureSyncTime = 0
+            this.gpuQueries = []
+        }
+        const extension = this.getTimerExtension()
+        if (extension) {
+            const { gl } = this.app
+            const query = gl.createQuery()!
+            gl.beginQuery(extension.TIME_ELAPSED_EXT, query)
+            this.gpuQueries.push([phase, query])
+            this.queryActive = true
+        }
+        this.phaseDrawCalls = this.drawCallCount
+        this.phaseStart = performance.now()
+    }
+
+    private afterPhase(phase: FramePhase): void {
+        const sample = this.current
+        if (!sample) {
+            return
+        }
+        sample.cpuTime[phase] = performance.now() - this.phaseStart
+        sample.drawCalls[phase] = this.drawCallCount - this.phaseDrawCalls
+        if (this.queryActive) {
+            this.app.gl.endQuery(this.timerExtension!.TIME_ELAPSED_EXT)
+            this.queryActive = false
+        }
+        if (phase !== FRAME_PHASES[FRAME_PHASES.length - 1]) {
+            return
+        }
+        sample.frameTime = performance.now() - sample.time
+        sample.textureSyncs = this.textureSyncs
+        sample.textureSyncTime = this.textureSyncTime
+        sample.textureMemory = this.textureMemory
+        if (this.gpuQueries.length) {
+            this.pendingGpuFrames.push({ sample, queries: this.gpuQueries })
+        }
+        this.current = undefined
+        this.history.push(sample)
+        if (this.history.length > this.historySize) {
+            this.history.splice(0, this.history.length - this.historySize)
+        }
+        this.onSampleObservable.notifyObservers(sample)
+    }
+
+    /**
+     * Reads the timer queries of earlier frames that are available by now
+     */
+    private resolveGpuFrames(): void {
+        const extension = this.getTimerExtension()
+        const { gl } = this.app
+        if (!extension || !this.pendingGpuFrames.length) {
+            return
+        }
+        // results are meaningless when the GPU was interrupted, e.g. by a power state change
+        const disjoint = gl.getParameter(extension.GPU_DISJOINT_EXT) as boolean
+        while (this.pendingGpuFrames.length) {
+            const { sample, queries } = this.pendingGpuFrames[0]
+            const available = queries.every(([, query]) =>
+                gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)
+            )
+            if (!available && this.pendingGpuFrames.length < MAX_PENDING_GPU_FRAMES) {
+                break
+            }
+            this.pendingGpuFrames.shift()
+            if (available && !disjoint) {
+                const gpuTime = phaseRecord()
+                queries.forEach(([phase, query]) => {
+                    const nanoseconds = gl.getQueryParameter(query, gl.QUERY_RESULT) as number
+                    gpuTime[phase] = nanoseconds / 1e6
+                })
+                sample.gpuTime = gpuTime
+            }
+            this.deleteQueries(queries)
+        }
+    }
+
+    private deleteQueries(queries: [FramePhase, WebGLQuery][]): void {
+        queries.forEach(([, query]) => this.app.gl.deleteQuery(query))
+    }
+
+    private getTimerExtension(): GpuTimerExtension | null {
+        if (!this.gpuTimers) {
+            return null
+        }
+        if (this.timerExtension === undefined) {
+            this.timerExtension = this.app.gl.getExtension(
+                'EXT_disjoint_timer_query_webgl2'
+            ) as GpuTimerExtension | null
+        }
+        return this.timerExtension
+    }
+}
@@ -0,0 +1,141 @@
+import { Observer } from '@babylonjs/core/Misc/observable'
+import { Container, DestroyOptions, Graphics, Text } from 'pixi.js'
+
+import { FRAME_PHASES, FramePhase } from './FrameScheduler.js'
+import type { FrameStats, FrameStatsSample } from './FrameStats.js'
+
+export interface FrameStatsOverlayOptions {
+    /** Width of the overlay in pixels, defaults to 260 */
+    width?: number
+    /** Height of the frame time graph in pixels, defaults to 60 */
+    graphHeight?: number
+    /** Minimum time between two redraws, in milliseconds, defaults to 250 */
+    updateInterval?: number
+}
+
+/** Colors of the phases in the graph */
+const PHASE_COLORS: Record<FramePhase, number> = {
+    update: 0x8e8e8e,
+    textureSync: 0xf2c14e,
+    babylonRender: 0x4ea5f2,
+    pixiLayers: 0xe9436f,
+    post: 0x6fcf97,
+}
+
+const PHASE_LABELS: Record<FramePhase, string> = {
+    update: 'update',
+    textureSync: 'sync',
+    babylonRender: 'babylon',
+    pixiLayers: 'pixi',
+    post: 'post',
+}
+
+const PADDING = 6
+
+/**
+ * PIXI panel showing the latest frame stats and a graph of the CPU time of each phase
+ *
+ * Create it with `app.stats.showOverlay()`. The overlay is drawn by PIXI like any other
+ * content, so its own draw calls are part of the `pixiLayers` phase.
+ */
+export class FrameStatsOverlay extends Container {
+    private readonly background = new Graphics()
+    private readonly graph = new Graphics()
+    private readonly readout = new Text({
+        text: '',
+        style: { fontFamily: 'monospace', fontSize: 11, fill: 0xffffff, lineHeight: 14 },
+    })
+    private readonly observer: Observer<FrameStatsSample>
+    private readonly panelWidth: number
+    private readonly graphHeight: number
+    private readonly updateInterval: number
+    private lastUpdate = -Infinity
+
+    constructor(
+        public readonly stats: FrameStats,
+        options: FrameStatsOverlayOptions = {}
+    ) {
+        super({ label: 'frameStats', eventMode: 'none' })
+        this.panelWidth = options.width ?? 260
+        this.graphHeight = options.graphHeight ?? 60
+        this.updateInterval = options.updateInterval ?? 250
+        this.readout.position.set(PADDING, PADDING)
+        this.addChild(this.background, this.graph, this.readout)
+        this.observer = stats.onSampleObservable.add(sample => {
+            if (sample.time - this.lastUpdate >= this.updateInterval) {
+                this.lastUpdate = sample.time
+                this.redraw()
+            }
+        })
+    }
+
+    /**
+     * Redraws the text and the graph from the history
+     */
+    redraw(): void {
+        const { stats } = this
+        const sample = stats.last
+        if (!sample) {
+            return
+        }
+        const frames = Math.min(stats.history.length, 30)
+        const first = stats.history[stats.history.length - frames]
+        const fps = frames > 1 ? ((frames - 1) * 1000) / (sample.time - first.time) : 0
+        const phases = (values: Record<FramePhase, number>, digits: number) =>
+            FRAME_PHASES.map(
+                phase => `${PHASE_LABELS[phase]} ${values[phase].toFixed(digits)}`
+            ).join('  ')
+        const cpuTime = phaseRecordAverage(stats)
+        const gpuSample = [...stats.history].reverse().find(({ gpuTime }) => gpuTime)
+        this.readout.text = [
+            `${fps.toFixed(0)} fps  frame ${stats.average(s => s.frameTime).toFixed(2)} ms`,
+            `cpu  ${phases(cpuTime, 1)}`,
+            gpuSample ? `gpu  ${phases(gpuSample.gpuTime!, 1)}` : 'gpu  n/a',
+            `draw ${phases(sample.drawCalls, 0)}`,
+            `syncs ${sample.textureSyncs} (${sample.textureSyncTime.toFixed(2)} ms)  ` +
+                `textures ${(sample.textureMemory / 1048576).toFixed(1)} MB`,
+        ].join('\n')
+
+        const width = Math.max(this.panelWidth, this.readout.width + PADDING * 2)
+        const graphTop = this.readout.y + this.readout.height + PADDING
+        const height = graphTop + this.graphHeight + PADDING
+        this.background.clear().rect(0, 0, width, height).fill({ color: 0x000000, alpha: 0.7 })
+        this.drawGraph(PADDING, graphTop, width - PADDING * 2)
+    }
+
+    destroy(options?: DestroyOptions): void {
+        this.observer.remove()
+        super.destroy(options)
+    }
+
+    /**
+     * Draws the CPU time of the phases as stacked bars, one per sample, newest on the right
+     * The scale fits the slowest frame and never drops below 60 fps
+     */
+    private drawGraph(left: number, top: number, width: number): void {
+        const { graph, graphHeight, stats } = this
+        const samples = stats.history.slice(-Math.floor(width))
+        const scale = graphHeight / Math.max(1000 / 60, ...samples.map(s => s.frameTime))
+        graph.clear()
+        samples.forEach((sample, i) => {
+            const x = left + width - samples.length + i
+            let y = top + graphHeight
+            FRAME_PHASES.forEach(phase => {
+                const barHeight = sample.cpuTime[phase] * scale
+                if (barHeight > 0) {
+                    graph.rect(x, y - barHeight, 1, barHeight).fill(PHASE_COLORS[phase])
+                    y -= barHeight
+                }
+            })
+        })
+        // 60 fps budget
+        const budget = top + graphHeight - (1000 / 60) * scale
+        graph.rect(left, budget, width, 1).fill({ color: 0xffffff, alpha: 0.4 })
+    }
+}
+
+function phaseRecordAverage(stats: FrameStats): Record<FramePhase, number> {
+    const average = {} as Record<FramePhase, number>
+    FRAME_PHASES.forEach(phase => (average[phase] = stats.average(s => s.cpuTime[phase])))
+    return average
+}
@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest'
+
+import { captureGlState, GlStateDebugger, GlStateDebuggerOptions } from './GlStateDebugger.js'
+
+const PARAMETERS = [
+    'DRAW_FRAMEBUFFER_BINDING',
+    'READ_FRAMEBUFFER_BINDING',
+    'RENDERBUFFER_BINDING',
+    'VERTEX_ARRAY_BINDING',
+    'ARRAY_BUFFER_BINDING',
+    'CURRENT_PROGRAM',
+    'BLEND_SRC_RGB',
+    'BLEND_DST_RGB',
+    'BLEND_SRC_ALPHA',
+    'BLEND_DST_ALPHA',
+    'BLEND_EQUATION_RGB',
+    'BLEND_EQUATION_ALPHA',
+    'DEPTH_WRITEMASK',
+    'DEPTH_FUNC',
+    'STENCIL_FUNC',
+    'STENCIL_REF',
+    'STENCIL_VALUE_MASK',
+    'STENCIL_WRITEMASK',
+    'COLOR_WRITEMASK',
+    'VIEWPORT',
+    'SCISSOR_BOX',
+    'BLEND',
+    'DEPTH_TEST',
+    'STENCIL_TEST',
+    'CULL_FACE',
+    'SCISSOR_TEST',
+    'DRAW_FRAMEBUFFER',
+    'READ_FRAMEBUFFER',
+    'RENDERBUFFER',
+    'ARRAY_BUFFER',
+    'TEXTURE_2D',
+] as const
+
+type Parameter = (typeof PARAMETERS)[number]
+
+type Constants = Record<Parameter, number>
+
+/**
+ * WebGL2 context that keeps the state in memory and records every call that changes it
+ */
+class RecordingContext {
+    readonly calls: string[] = []
+    readonly ACTIVE_TEXTURE = 1
+    readonly TEXTURE_BINDING_2D = 2
+    readonly SAMPLER_BINDING = 3
+    readonly TEXTURE0 = 0x84c0
+
+    /** Parameter names and capabilities, also set as constants on the context */
+    readonly constants = Object.fromEntries(
+        PARAMETERS.map((name, i) => [name, 100 + i])
+    ) as Constants
+
+    readonly values = new Map<number, unknown>()
+    readonly textures: unknown[] = []
+    readonly samplers: unknown[] = []
+    active = this.TEXTURE0
+
+    constructor() {
+        Object.assign(this, this.constants)
+        this.set({
+            DRAW_FRAMEBUFFER_BINDING: null,
+            READ_FRAMEBUFFER_BINDING: null,
+            RENDERBUFFER_BINDING: null,
+            VERTEX_ARRAY_BINDING: null,
+            ARRAY_BUFFER_BINDING: null,
+            CURRENT_PROGRAM: null,
+            BLEND_SRC_RGB: 1,
+            BLEND_DST_RGB: 0,
+            BLEND_SRC_ALPHA: 1,
+            BLEND_DST_ALPHA: 0,
+            BLEND_EQUATION_RGB: 0x8006,
+            BLEND_EQUATION_ALPHA: 0x8006,
+            DEPTH_WRITEMASK: true,
+            DEPTH_FUNC: 0x0201,
+            STENCIL_FUNC: 0x0207,
+            STENCIL_REF: 0,
+            STENCIL_VALUE_MASK: 0xff,
+            STENCIL_WRITEMASK: 0xff,
+            COLOR_WRITEMASK: [true, true, true, true],
+            VIEWPORT: new Int32Array([0, 0, 300, 150]),
+            SCISSOR_BOX: new Int32Array([0, 0, 300, 150]),
+            BLEND: false,
+            DEPTH_TEST: false,
+            STENCIL_TEST: false,
+            CULL_FACE: false,
+            SCISSOR_TEST: false,
+        })
+    }
+
+    set(values: Partial<Record<Parameter, unknown>>): void {
+        for (const [name, value] of Object.entries(values)) {
+            this.values.set(this.constants[name as Parameter], value)
+        }
+    }
+
+    getParameter(pname: number): unknown {
+        const unit = this.active - this.TEXTURE0
+        switch (pname) {
+            case this.ACTIVE_TEXTURE:
+                return this.active
+            case this.TEXTURE_BINDING_2D:
+                return this.textures[unit] ?? null
+            case this.SAMPLER_BINDING:
+                return this.samplers[unit] ?? null
+        }
+        return this.values.get(pname)
+    }
+
+    isEnabled(cap: number): boolean {
+        return this.values.get(cap) as boolean
+    }
+
+    enable(cap: number): void {
+        this.record('enable', cap)
+        this.values.set(cap, true)
+    }
+
+    disable(cap: number): void {
+        this.record('disable', cap)
+        this.values.set(cap, false)
+    }
+
+    activeTexture(texture: number): void {
+        this.active = texture
+    }
+
+    bindFramebuffer(target: number, framebuffer: unknown): void {
+        this.record('bindFramebuffer', target, framebuffer)
+        const binding =
+            target === this.constants.DRAW_FRAMEBUFFER
+                ? 'DRAW_FRAMEBUFFER_BINDING'
+                : 'READ_FRAMEBUFFER_BINDING'
+        this.set({ [binding]: framebuffer })
+    }
+
+    bindVertexArray(vertexArray: unknown): void {
+        this.record('bindVertexArray', vertexArray)
+        this.set({ VERTEX_ARRAY_BINDING: vertexArray })
+    }
+
+    bindSampler(unit: number, sampler: unknown): void {
+        this.record('bindSampler', unit, sampler)
+        this.samplers[unit] = sampler
+    }
+
+    blendFuncSeparate(srcRgb: number, dstRgb: number, srcAlpha: number, dstAlpha: number): void {
+        this.record('blendFuncSeparate', srcRgb, dstRgb, srcAlpha, dstAlpha)
+        this.set({
+            BLEND_SRC_RGB: srcRgb,
+            BLEND_DST_RGB: dstRgb,
+            BLEND_SRC_ALPHA: srcAlpha,
+            BLEND_DST_ALPHA: dstAlpha,
+        })
+    }
+
+    depthFunc(func: number): void {
+        this.record('depthFunc', func)
+        this.set({ DEPTH_FUNC: func })
+    }
+
+    viewport(x: number, y: number, width: number, height: number): void {
+        this.record('viewport', x, y, width, height)
+        this.set({ VIEWPORT: new Int32Array([x, y, width, height]) })
+    }
+
+    private record(name: string, ...args: unknown[]): void {
+        this.calls.push(`${name}(${args.map(arg => String(arg)).join(', ')})`)
+    }
+}
+
+function createDebugger(options: GlStateDebuggerOptions = {}) {
+    const gl = new RecordingContext()
+    const glStateDebugger = new GlStateDebugger(gl as unknown as WebGL2RenderingContext, {
+        log: false,
+        textureUnits: 4,
+        ...options,
+    })
+    return { gl, glStateDebugger }
+}
+
+describe('GlStateDebugger', () => {
+    it('captures the state of every texture unit and keeps the active unit', () => {
+        const gl = new RecordingContext()
+        gl.textures[2] = 'texture'
+        gl.samplers[1] = 'sampler'
+        gl.active = gl.TEXTURE0 + 3
+
+        const state = captureGlState(gl as unknown as WebGL2RenderingContext, 4)
+
+        expect(state.textures).toEqual([null, null, 'texture', null])
+        expect(state.samplers).toEqual([null, 'sampler', null, null])
+        expect(state.activeTexture).toBe(gl.TEXTURE0 + 3)
+        expect(state.viewport).toEqual([0, 0, 300, 150])
+    })
+
+    it('reports the bindings that differ from the handoff state', () => {
+        const { gl, glStateDebugger } = createDebugger()
+        expect(glStateDebugger.check('babylon')).toEqual([])
+
+        gl.set({ VERTEX_ARRAY_BINDING: 'vao', SCISSOR_TEST: true })
+        gl.samplers[2] = 'sampler'
+        const leaks = glStateDebugger.check('pixi-layers')
+
+        expect(leaks.map(({ phase, key }) => `${phase}:${key}`)).toEqual([
+            'pixi-layers:vertexArray',
+            'pixi-layers:samplers',
+            'pixi-layers:scissorTest',
+        ])
+        expect(leaks[0]).toMatchObject({ expected: null, actual: 'vao', repaired: false })
+        expect(leaks[0].stack).toContain('GlStateDebugger.test')
+        expect(glStateDebugger.leaks).toEqual(leaks)
+        // nothing is written without autoRepair
+        expect(gl.calls).toEqual([])
+    })
+
+    it('reports render state a phase hands over differently than the previous time', () => {
+        const { gl, glStateDebugger } = createDebugger()
+        gl.set({ BLEND: true, DEPTH_TEST: true })
+        expect(glStateDebugger.check('babylon')).toEqual([])
+        gl.set({ BLEND: false, DEPTH_TEST: false })
+        expect(glStateDebugger.check('pixi-layers')).toEqual([])
+
+        // the next frame, a feature leaves the depth function and viewport of its pass
+        gl.set({ BLEND: true, DEPTH_TEST: true, DEPTH_FUNC: 0x0203 })
+        gl.set({ VIEWPORT: new Int32Array([0, 0, 64, 64]) })
+        gl.active = gl.TEXTURE0 + 1
+        const leaks = glStateDebugger.check('babylon')
+
+        expect(leaks.map(leak => leak.key)).toEqual(['activeTexture', 'depthFunc', 'viewport'])
+        expect(leaks[1]).toMatchObject({ phase: 'babylon', expected: 0x0201, actual: 0x0203 })
+        expect(glStateDebugger.lastPhase).toBe('babylon')
+    })
+
+    it('sets leaked state back with autoRepair', () => {
+        const { gl, glStateDebugger } = createDebugger({ autoRepair: true })
+        glStateDebugger.check('babylon')
+
+        gl.set({ DRAW_FRAMEBUFFER_BINDING: 'framebuffer', BLEND: true, DEPTH_FUNC: 0x0203 })
+        gl.samplers[1] = 'sampler'
+        const leaks = glStateDebugger.check('babylon')
+
+        expect(leaks.every(leak => leak.repaired)).toBe(true)
+        // tracked state first, then the handoff state
+        expect(gl.calls).toEqual([
+            `disable(${gl.constants.BLEND})`,
+            `depthFunc(${0x0201})`,
+            `bindFramebuffer(${gl.constants.DRAW_FRAMEBUFFER}, null)`,
+            'bindSampler(0, null)',
+            'bindSampler(1, null)',
+            'bindSampler(2, null)',
+            'bindSampler(3, null)',
+        ])
+        expect(captureGlState(gl as unknown as WebGL2RenderingContext, 4)).toMatchObject({
+            drawFramebuffer: null,
+            samplers: [null, null, null, null],
+            blend: false,
+            depthFunc: 0x0201,
+        })
+        // the repaired state is the reference for the next handoff
+        expect(glStateDebugger.check('babylon')).toEqual([])
+    })
+
+    it('notifies the leaks and keeps the most recent ones', () => {
+        const { gl, glStateDebugger } = createDebugger({ maxLeaks: 2, captureStack: false })
+        const notified: string[] = []
+        glStateDebugger.onLeakObservable.add(leak => notified.push(leak.key))
+
+        gl.set({ VERTEX_ARRAY_BINDING: 'vao', SCISSOR_TEST: true, READ_FRAMEBUFFER_BINDING: 'fb' })
+        glStateDebugger.check('babylon')
+
+        expect(notified).toEqual(['readFramebuffer', 'vertexArray', 'scissorTest'])
+        expect(glStateDebugger.leaks.map(leak => leak.key)).toEqual(['vertexArray', 'scissorTest'])
+        expect(glStateDebugger.leaks[0].stack).toBeUndefined()
+
+        glStateDebugger.reset()
+        expect(glStateDebugger.leaks).toEqual([])
+        expect(glStateDebugger.lastState).toBeUndefined()
+    })
+})
@@ -0,0 +1,404 @@
+import { Observable } from '@babylonjs/core/Misc/observable'
+
+/**
+ * Snapshot of the WebGL state the two engines hand over to each other
+ * Texture and sampler bindings are listed per texture unit
+ */
+export interface GlState {
+    drawFramebuffer: WebGLFramebuffer | null
+    readFramebuffer: WebGLFramebuffer | null
+    renderbuffer: WebGLRenderbuffer | null
+    vertexArray: WebGLVertexArrayObject | null
+    arrayBuffer: WebGLBuffer | null
+    program: WebGLProgram | null
+    activeTexture: number
+    textures: (WebGLTexture | null)[]
+    samplers: (WebGLSampler | null)[]
+    blend: boolean
+    blendFunc: number[]
+    blendEquation: number[]
+    depthTest: boolean
+    depthMask: boolean
+    depthFunc: number
+    stencilTest: boolean
+    stencilFunc: number[]
+    stencilWriteMask: number
+    cullFace: boolean
+    colorMask: boolean[]
+    viewport: number[]
+    scissorTest: boolean
+    scissorBox: number[]
+}
+
+export type GlStateKey = keyof GlState
+
+interface GlStateField<T> {
+    read(gl: WebGL2RenderingContext, units: number): T
+    write(gl: WebGL2RenderingContext, value: T, units: number): void
+}
+
+type GlStateFields = { [K in GlStateKey]: GlStateField<GlState[K]> }
+
+type Capability = 'BLEND' | 'DEPTH_TEST' | 'STENCIL_TEST' | 'CULL_FACE' | 'SCISSOR_TEST'
+
+// constants are read from the context so the module also loads without WebGL, e.g. with a mock
+const toggle = (cap: Capability): GlStateField<boolean> => ({
+    read: gl => gl.isEnabled(gl[cap]),
+    write: (gl, value) => (value ? gl.enable(gl[cap]) : gl.disable(gl[cap])),
+})
+
+/**
+ * Reads the binding of every texture unit, the active unit is restored afterwards
+ */
+function readUnits(gl: WebGL2RenderingContext, units: number, pname: number) {
+    const active = gl.getParameter(gl.ACTIVE_TEXTURE)
+    const bindings = []
+    for (let i = 0; i < units; i++) {
+        gl.activeTexture(gl.TEXTURE0 + i)
+        bindings.push(gl.getParameter(pname))
+    }
+    gl.activeTexture(active)
+    return bindings
+}
+
+const GL_STATE_FIELDS: GlStateFields = {
+    drawFramebuffer: {
+        read: gl => gl.getParameter(gl.DRAW_FRAMEBUFFER_BINDING),
+        write: (gl, value) => gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, value),
+    },
+    readFramebuffer: {
+        read: gl => gl.getParameter(gl.READ_FRAMEBUFFER_BINDING),
+        write: (gl, value) => gl.bindFramebuffer(gl.READ_FRAMEBUFFER, value),
+    },
+    renderbuffer: {
+        read: gl => gl.getParameter(gl.RENDERBUFFER_BINDING),
+        write: (gl, value) => gl.bindRenderbuffer(gl.RENDERBUFFER, value),
+    },
+    vertexArray: {
+        read: gl => gl.getParameter(gl.VERTEX_ARRAY_BINDING),
+        write: (gl, value) => gl.bindVertexArray(value),
+    },
+    arrayBuffer: {
+        read: gl => gl.getParameter(gl.ARRAY_BUFFER_BINDING),
+        write: (gl, value) => gl.bindBuffer(gl.ARRAY_BUFFER, value),
+    },
+    program: {
+        read: gl => gl.getParameter(gl.CURRENT_PROGRAM),
+        write: (gl, value) => gl.useProgram(value),
+    },
+    activeTexture: {
+        read: gl => gl.getParameter(gl.ACTIVE_TEXTURE),
+        write: (gl, value) => gl.activeTexture(value),
+    },
+    textures: {
+        read: (gl, units) => readUnits(gl, units, gl.TEXTURE_BINDING_2D),
+        write: (gl, value, units) => {
+            const active = gl.getParameter(gl.ACTIVE_TEXTURE)
+            for (let i = 0; i < units; i++) {
+                gl.activeTexture(gl.TEXTURE0 + i)
+                gl.bindTexture(gl.TEXTURE_2D, value[i] ?? null)
+            }
+            gl.activeTexture(active)
+        },
+    },
+    samplers: {
+        read: (gl, units) => readUnits(gl, units, gl.SAMPLER_BINDING),
+        write: (gl, value, units) => {
+            for (let i = 0; i < units; i++) {
+                gl.bindSampler(i, value[i] ?? null)
+            }
+        },
+    },
+    blend: toggle('BLEND'),
+    blendFunc: {
+        read: gl => [
+            gl.getParameter(gl.BLEND_SRC_RGB),
+            gl.getParameter(gl.BLEND_DST_RGB),
+            gl.getParameter(gl.BLEND_SRC_ALPHA),
+            gl.getParameter(gl.BLEND_DST_ALPHA),
+        ],
+        write: (gl, [srcRgb, dstRgb, srcAlpha, dstAlpha]) =>
+            gl.blendFuncSeparate(srcRgb, dstRgb, srcAlpha, dstAlpha),
+    },
+    blendEquation: {
+        read: gl => [
+            gl.getParameter(gl.BLEND_EQUATION_RGB),
+            gl.getParameter(gl.BLEND_EQUATION_ALPHA),
+        ],
+        write: (gl, [rgb, alpha]) => gl.blendEquationSeparate(rgb, alpha),
+    },
+    depthTest: toggle('DEPTH_TEST'),
+    depthMask: {
+        read: gl => gl.getParameter(gl.DEPTH_WRITEMASK),
+        write: (gl, value) => gl.depthMask(value),
+    },
+    depthFunc: {
+        read: gl => gl.getParameter(gl.DEPTH_FUNC),
+        write: (gl, value) => gl.depthFunc(value),
+    },
+    stencilTest: toggle('STENCIL_TEST'),
+    stencilFunc: {
+        read: gl => [
+            gl.getParameter(gl.STENCIL_FUNC),
+            gl.getParameter(gl.STENCIL_REF),
+            gl.getParameter(gl.STENCIL_VALUE_MASK),
+        ],
+        write: (gl, [func, ref, mask]) => gl.stencilFunc(func, ref, mask),
+    },
+    stencilWriteMask: {
+        read: gl => gl.getParameter(gl.STENCIL_WRITEMASK),
+        write: (gl, value) => gl.stencilMask(value),
+    },
+    cullFace: toggle('CULL_FACE'),
+    colorMask: {
+        read: gl => Array.from(gl.getParameter(gl.COLOR_WRITEMASK) as boolean[]),
+        write: (gl, [r, g, b, a]) => gl.colorMask(r, g, b, a),
+    },
+    viewport: {
+        read: gl => Array.from(gl.getParameter(gl.VIEWPORT) as Int32Array),
+        write: (gl, [x, y, width, height]) => gl.viewport(x, y, width, height),
+    },
+    scissorTest: toggle('SCISSOR_TEST'),
+    scissorBox: {
+        read: gl => Array.from(gl.getParameter(gl.SCISSOR_BOX) as Int32Array),
+        write: (gl, [x, y, width, height]) => gl.scissor(x, y, width, height),
+    },
+}
+
+/**
+ * Reads the handoff relevant WebGL state
+ *
+ * @param gl - Context to read from
+ * @param units - Number of texture units to read the bindings of
+ */
+export function captureGlState(gl: WebGL2RenderingContext, units = 16): GlState {
+    const state = {} as Record<GlStateKey, unknown>
+    for (const key of Object.keys(GL_STATE_FIELDS) as GlStateKey[]) {
+        state[key] = GL_STATE_FIELDS[key].read(gl, units)
+    }
+    return state as unknown as GlState
+}
+
+/**
+ * Compares two state values, missing list entries count as null
+ */
+function isSameGlValue(a: unknown, b: unknown): boolean {
+    if (!Array.isArray(a) || !Array.isArray(b)) {
+        return a === b
+    }
+    const length = Math.max(a.length, b.length)
+    for (let i = 0; i < length; i++) {
+        if ((a[i] ?? null) !== (b[i] ?? null)) {
+            return false
+        }
+    }
+    return true
+}
+
+/**
+ * Copies one value between snapshots
+ */
+function copyGlValue<K extends GlStateKey>(target: Partial<GlState>, source: GlState, key: K) {
+    target[key] = source[key]
+}
+
+/**
+ * State both engines rely on when they take over the context
+ * Babylon's caches assume these bindings after `wipeCaches`, PIXI never unbinds its samplers
+ */
+export const HANDOFF_GL_STATE: Partial<GlState> = {
+    drawFramebuffer: null,
+    readFramebuffer: null,
+    vertexArray: null,
+    samplers: [],
+    scissorTest: false,
+}
+
+/**
+ * Render state each engine sets on its own, so there is no single value to hand over
+ * It is compared with the state the same phase handed over the previous time, a phase that
+ * leaves it differently, e.g. because a feature only ran in some frames, leaked it
+ */
+export const TRACKED_GL_STATE: readonly GlStateKey[] = [
+    'activeTexture',
+    'blend',
+    'blendFunc',
+    'blendEquation',
+    'depthTest',
+    'depthMask',
+    'depthFunc',
+    'stencilTest',
+    'stencilFunc',
+    'stencilWriteMask',
+    'viewport',
+]
+
+/**
+ * A state that did not match the handoff state
+ */
+export interface GlStateLeak {
+    /** Phase that handed over the context */
+    phase: string
+    /** Leaked state */
+    key: GlStateKey
+    /** Value the next engine relies on, or the value of the previous handoff of the phase */
+    expected: unknown
+    /** Value that was found */
+    actual: unknown
+    /** Stack of the handoff, hints at the code that ran before it */
+    stack?: string
+    /** Whether the state was set back to the expected value */
+    repaired: boolean
+}
+
+export interface GlStateDebuggerOptions {
+    /** Whether to set leaked state back to the handoff state, defaults to false */
+    autoRepair?: boolean
+    /** Whether to record the stack of the handoff with each leak, defaults to true */
+    captureStack?: boolean
+    /** Whether to warn in the console the first time a phase leaks a state, defaults to true */
+    log?: boolean
+    /** Expected state at every handoff, defaults to `HANDOFF_GL_STATE` */
+    handoffState?: Partial<GlState>
+    /** State compared with the previous handoff of the same phase, defaults to `TRACKED_GL_STATE` */
+    trackedState?: readonly GlStateKey[]
+    /** Number of texture units to check, defaults to 16 */
+    textureUnits?: number
+    /** Maximum number of leaks kept in `leaks`, defaults to 100 */
+    maxLeaks?: number
+}
+
+/**
+ * Snapshots the shared GL state at every engine handoff and reports leaked state
+ *
+ * Each phase calls `check()` once it is done with the context, after its own cleanup.
+ * Every state that differs from the handoff state is reported as leaked by that phase, as is
+ * tracked state that differs from what the phase handed over the previous time.
+ * Reading the GL state stalls the pipeline, so this is meant for debugging only.
+ *
+ * @example
+ * ```typescript
+ * const app = await createPixiBabylon({ debug: { autoRepair: true } })
+ * app.glStateDebugger!.onLeakObservable.add(leak => console.log(leak.phase, leak.key))
+ * ```
+ */
+export class GlStateDebugger {
+    /** Resolved options */
+    public readonly options: Required<GlStateDebuggerOptions>
+
+    /** Most recent leaks, oldest first */
+    public readonly leaks: GlStateLeak[] = []
+
+    /** Observable that fires for every leaked state */
+    public readonly onLeakObservable = new Observable<GlStateLeak>()
+
+    /** Snapshot taken at the last handoff */
+    public lastState?: GlState
+
+    /** Phase of the last handoff */
+    public lastPhase?: string
+
+    private readonly logged = new Set<string>()
+    private readonly phaseStates = new Map<string, GlState>()
+
+    constructor(
+        public readonly gl: WebGL2RenderingContext,
+        options: GlStateDebuggerOptions = {}
+    ) {
+        this.options = {
+            autoRepair: false,
+            captureStack: true,
+            log: true,
+            handoffState: HANDOFF_GL_STATE,
+            trackedState: TRACKED_GL_STATE,
+            textureUnits: 16,
+            maxLeaks: 100,
+            ...options,
+        }
+    }
+
+    /**
+     * Snapshots the state at the end of a phase and reports what differs from the handoff state
+     *
+     * @param phase - Name of the phase that hands over the context
+     * @returns The leaks found at this handoff
+     */
+    check(phase: string): GlStateLeak[] {
+        const { gl, options } = this
+        const state = captureGlState(gl, options.textureUnits)
+        const previous = this.phaseStates.get(phase)
+        const expectedState: Partial<GlState> = {}
+        if (previous) {
+            options.trackedState.forEach(key => copyGlValue(expectedState, previous, key))
+        }
+        Object.assign(expectedState, options.handoffState)
+
+        const found: GlStateLeak[] = []
+        const stack = options.captureStack ? new Error().stack : undefined
+        for (const key of Object.keys(expectedState) as GlStateKey[]) {
+            const expected = expectedState[key]
+            const actual = state[key]
+            if (isSameGlValue(expected, actual)) {
+                continue
+            }
+            if (options.autoRepair) {
+                this.repair(state, expectedState, key)
+            }
+            found.push({ phase, key, expected, actual, stack, repaired: options.autoRepair })
+        }
+        for (const leak of found) {
+            this.report(leak)
+        }
+        this.phaseStates.set(phase, state)
+        this.lastState = state
+        this.lastPhase = phase
+        return found
+    }
+
+    /**
+     * Forgets the recorded leaks, warnings are logged again
+     */
+    reset(): void {
+        this.leaks.length = 0
+        this.logged.clear()
+        this.phaseStates.clear()
+        this.lastState = undefined
+        this.lastPhase = undefined
+    }
+
+    dispose(): void {
+        this.reset()
+        this.onLeakObservable.clear()
+    }
+
+    /**
+     * Writes the expected value to the context and into the snapshot
+     * The next handoff of the phase is compared with the repaired state
+     */
+    private repair<K extends GlStateKey>(state: GlState, expectedState: Partial<GlState>, key: K) {
+        const expected = expectedState[key] as GlState[K]
+        const field: GlStateField<GlState[K]> = GL_STATE_FIELDS[key]
+        field.write(this.gl, expected, this.options.textureUnits)
+        state[key] = expected
+    }
+
+    private report(leak: GlStateLeak): void {
+        const { options, leaks } = this
+        leaks.push(leak)
+        if (leaks.length > options.maxLeaks) {
+            leaks.shift()
+        }
+        const id = `${leak.phase}:${leak.key}`
+        if (options.log && !this.logged.has(id)) {
+            this.logged.add(id)
+            console.warn(
+                `GL state leak: "${leak.phase}" left ${leak.key} at`,
+                leak.actual,
+                'instead of',
+                leak.expected,
+                leak.stack
+            )
+        }
+        this.onLeakObservable.notifyObservers(leak)
+    }
+}
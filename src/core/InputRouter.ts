@@ -0,0 +1,268 @@
+import { Scene } from '@babylonjs/core/scene'
+import { EventSystem, EventSystemFeatures, EventsTicker, Point, Renderer } from 'pixi.js'
+
+import type { CameraViewportManager } from './CameraViewportManager.js'
+import { PixiLayer, PixiLayerManager } from './PixiLayer.js'
+
+/** Receiver of an input event: a PIXI layer or the Babylon scene */
+export type InputTarget = PixiLayer | Scene
+
+type PixiPointerHandler = '_onPointerDown' | '_onPointerMove' | '_onPointerUp' | '_onPointerOverOut'
+
+/** Features turned off while attached, so PIXI's own listeners ignore the events */
+const ROUTED_FEATURES: Pick<EventSystemFeatures, 'click' | 'move' | 'wheel'> = {
+    click: false,
+    move: false,
+    wheel: false,
+}
+
+/**
+ * Routes the input of the shared canvas to either PIXI or Babylon
+ *
+ * PIXI layers and the Babylon scene are hit-tested from the highest input priority down.
+ * A PIXI layer only takes an event when an interactive object of it is hit, the event is then
+ * dispatched through the PIXI `EventSystem` and stopped before Babylon's listeners see it.
+ * Babylon takes the event when one of its pickable meshes is hit, and it receives everything
+ * nobody else took, so camera controls keep working on empty space.
+ *
+ * A pointer that went down on a target stays captured by it until it goes up,
+ * keyboard events follow the target of the last pointer down.
+ * With camera viewports, Babylon input goes to the camera of the view under the pointer.
+ */
+export class InputRouter {
+    /** Priority of the Babylon scene among the PIXI layers, layers win ties */
+    public babylonInputPriority = 0
+
+    /** Views that scope Babylon input to the camera under the pointer */
+    public viewports?: CameraViewportManager
+
+    private attached = false
+    private focus?: InputTarget
+    private hovered?: PixiLayer
+    private readonly captures = new Map<number, InputTarget>()
+    private readonly point = new Point()
+    private pixiFeatures?: EventSystemFeatures
+    private pixiTickerPaused = false
+
+    constructor(
+        public readonly canvas: HTMLCanvasElement,
+        private readonly scene: Scene,
+        private readonly renderer: Renderer,
+        private readonly layers: PixiLayerManager
+    ) {}
+
+    /**
+     * Takes over the canvas listeners of the PIXI `EventSystem`
+     */
+    attach(): void {
+        if (this.attached) {
+            return
+        }
+        this.attached = true
+        const { events } = this.renderer
+        // PIXI's own listeners stay on the canvas but ignore everything, the router dispatches
+        this.pixiFeatures = { ...events.features }
+        Object.assign(events.features, ROUTED_FEATURES)
+        // the ticker would replay the last pointer move outside of the routing
+        this.pixiTickerPaused = EventsTicker.pauseUpdate
+        EventsTicker.pauseUpdate = true
+
+        const { canvas } = this
+        canvas.addEventListener('pointerdown', this.onPointerDown, true)
+        canvas.addEventListener('pointerover', this.onPointerOverOut, true)
+        canvas.addEventListener('pointerleave', this.onPointerOverOut, true)
+        canvas.addEventListener('wheel', this.onWheel, { capture: true, passive: true })
+        canvas.addEventListener('keydown', this.onKey, true)
+        canvas.addEventListener('keyup', this.onKey, true)
+        document.addEventListener('pointermove', this.onPointerMove, true)
+        window.addEventListener('pointerup', this.onPointerUp, true)
+        window.addEventListener('pointercancel', this.onPointerCancel, true)
+    }
+
+    /**
+     * Gives the canvas listeners back to the PIXI `EventSystem`
+     */
+    detach(): void {
+        if (!this.attached) {
+            return
+        }
+        this.attached = false
+        const { canvas } = this
+        canvas.removeEventListener('pointerdown', this.onPointerDown, true)
+        canvas.removeEventListener('pointerover', this.onPointerOverOut, true)
+        canvas.removeEventListener('pointerleave', this.onPointerOverOut, true)
+        canvas.removeEventListener('wheel', this.onWheel, true)
+        canvas.removeEventListener('keydown', this.onKey, true)
+        canvas.removeEventListener('keyup', this.onKey, true)
+        document.removeEventListener('pointermove', this.onPointerMove, true)
+        window.removeEventListener('pointerup', this.onPointerUp, true)
+        window.removeEventListener('pointercancel', this.onPointerCancel, true)
+        this.captures.clear()
+        this.focus = undefined
+        this.hovered = undefined
+        Object.assign(this.renderer.events.features, this.pixiFeatures)
+        EventsTicker.pauseUpdate = this.pixiTickerPaused
+    }
+
+    /**
+     * Finds the target of a position in client coordinates
+     */
+    hitTest(clientX: number, clientY: number): InputTarget {
+        const candidates: InputTarget[] = [...this.layers.sorted, this.scene]
+        candidates.sort((a, b) => this.priorityOf(b) - this.priorityOf(a))
+        for (let i = 0; i < candidates.length; i++) {
+            const candidate = candidates[i]
+            if (candidate instanceof PixiLayer) {
+                if (this.hitLayer(candidate, clientX, clientY)) {
+                    return candidate
+                }
+            } else if (i === candidates.length - 1 || this.hitScene(clientX, clientY)) {
+                // picking is only needed when layers below the scene could take the event
+                return candidate
+            }
+        }
+        return this.scene
+    }
+
+    /**
+     * Sends all events of a pointer to a target until the pointer is released
+     */
+    capturePointer(pointerId: number, target: InputTarget): void {
+        this.captures.set(pointerId, target)
+    }
+
+    releasePointer(pointerId: number): void {
+        this.captures.delete(pointerId)
+    }
+
+    getPointerCapture(pointerId: number): InputTarget | undefined {
+        return this.captures.get(pointerId)
+    }
+
+    private priorityOf(target: InputTarget): number {
+        return target instanceof PixiLayer ? target.inputPriority : this.babylonInputPriority
+    }
+
+    private hitLayer(layer: PixiLayer, clientX: number, clientY: number): boolean {
+        if (!layer.root.visible) {
+            return false
+        }
+        const { events } = this.renderer
+        events.mapPositionToPoint(this.point, clientX, clientY)
+        events.rootBoundary.rootTarget = layer.root
+        return !!events.rootBoundary.hitTest(this.point.x, this.point.y)
+    }
+
+    private hitScene(clientX: number, clientY: number): boolean {
+        const camera = this.viewports
+            ? this.viewports.cameraAt(clientX, clientY)
+            : this.scene.activeCamera
+        if (!camera) {
+            return false
+        }
+        const rect = this.canvas.getBoundingClientRect()
+        return !!this.scene.pick(clientX - rect.left, clientY - rect.top, undefined, false, camera)
+            .hit
+    }
+
+    /**
+     * Dispatches the event to a PIXI layer and hides it from Babylon,
+     * events for Babylon are left to its own listeners
+     */
+    private dispatch(event: PointerEvent, target: InputTarget, handler: PixiPointerHandler) {
+        if (!(target instanceof PixiLayer)) {
+            return
+        }
+        this.forward(target, events => events[handler](event))
+        if (event.target === this.canvas) {
+            event.stopImmediatePropagation()
+        }
+    }
+
+    /**
+     * Runs a handler of the PIXI `EventSystem` with the layer as the root of the event
+     */
+    private forward(layer: PixiLayer, dispatch: (events: EventSystem) => void) {
+        const { renderer } = this
+        const { events } = renderer
+        // the EventSystem uses the last rendered container as the root of every event
+        const lastObjectRendered = renderer.lastObjectRendered
+        renderer['_lastObjectRendered'] = layer.root
+        Object.assign(events.features, this.pixiFeatures)
+        try {
+            dispatch(events)
+        } finally {
+            Object.assign(events.features, ROUTED_FEATURES)
+            renderer['_lastObjectRendered'] = lastObjectRendered
+        }
+    }
+
+    private readonly onPointerDown = (event: PointerEvent) => {
+        const captured = this.captures.get(event.pointerId)
+        const target = captured ?? this.hitTest(event.clientX, event.clientY)
+        if (!captured && target === this.scene) {
+            this.viewports?.activate(event.clientX, event.clientY)
+        }
+        this.captures.set(event.pointerId, target)
+        this.focus = target
+        this.dispatch(event, target, '_onPointerDown')
+    }
+
+    private readonly onPointerMove = (event: PointerEvent) => {
+        let target = this.captures.get(event.pointerId)
+        if (!target) {
+            target =
+                event.target === this.canvas
+                    ? this.hitTest(event.clientX, event.clientY)
+                    : this.scene
+        }
+        if (target === this.scene && !this.captures.size && event.target === this.canvas) {
+            this.viewports?.hover(event.clientX, event.clientY)
+        }
+        // the previously hovered layer still needs the move to emit its pointerout
+        if (this.hovered && this.hovered !== target) {
+            this.forward(this.hovered, events => events['_onPointerMove'](event))
+        }
+        this.hovered = target instanceof PixiLayer ? target : undefined
+        this.dispatch(event, target, '_onPointerMove')
+    }
+
+    private readonly onPointerUp = (event: PointerEvent) => {
+        const target = this.captures.get(event.pointerId)
+        this.captures.delete(event.pointerId)
+        if (target) {
+            this.dispatch(event, target, '_onPointerUp')
+        } else if (event.target === this.canvas) {
+            this.dispatch(event, this.hitTest(event.clientX, event.clientY), '_onPointerUp')
+        }
+    }
+
+    private readonly onPointerCancel = (event: PointerEvent) => {
+        this.captures.delete(event.pointerId)
+    }
+
+    private readonly onPointerOverOut = (event: PointerEvent) => {
+        if (this.hovered) {
+            this.forward(this.hovered, events => events['_onPointerOverOut'](event))
+        }
+        if (event.type === 'pointerleave') {
+            this.hovered = undefined
+        }
+    }
+
+    private readonly onWheel = (event: WheelEvent) => {
+        const target = this.hitTest(event.clientX, event.clientY)
+        if (target instanceof PixiLayer) {
+            this.forward(target, events => events['onWheel'](event))
+            event.stopImmediatePropagation()
+        } else {
+            this.viewports?.activate(event.clientX, event.clientY)
+        }
+    }
+
+    private readonly onKey = (event: KeyboardEvent) => {
+        if (this.focus instanceof PixiLayer) {
+            event.stopImmediatePropagation()
+        }
+    }
+}
@@ -0,0 +1,119 @@
+import { AbstractEngine } from '@babylonjs/core/Engines/abstractEngine'
+import { Observable } from '@babylonjs/core/Misc/observable'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { FrameScheduler } from './FrameScheduler.js'
+import { PixiBabylonApplication } from './PixiBabylonApp.js'
+
+// PIXI reads the user agent when it loads
+vi.hoisted(() => Object.assign(globalThis, { navigator: { userAgent: 'node' } }))
+
+/**
+ * Engine that loses and restores its context when the test says so
+ */
+class MockEngine {
+    readonly onContextLostObservable = new Observable<AbstractEngine>()
+    readonly onContextRestoredObservable = new Observable<AbstractEngine>()
+    readonly loops = new Set<() => void>()
+    readonly wipeCaches = vi.fn()
+
+    runRenderLoop(loop: () => void): void {
+        this.loops.add(loop)
+    }
+
+    stopRenderLoop(loop: () => void): void {
+        this.loops.delete(loop)
+    }
+
+    loseContext(): void {
+        this.onContextLostObservable.notifyObservers(this as unknown as AbstractEngine)
+    }
+
+    restoreContext(): void {
+        this.onContextRestoredObservable.notifyObservers(this as unknown as AbstractEngine)
+    }
+}
+
+const restorable = () => ({ restore: vi.fn() })
+
+describe('PixiBabylonApplication context loss', () => {
+    let engine: MockEngine
+    let app: PixiBabylonApplication
+
+    beforeEach(() => {
+        engine = new MockEngine()
+        // the application is assembled by hand, `create()` needs WebGL
+        const Application = PixiBabylonApplication as unknown as new () => PixiBabylonApplication
+        app = new Application()
+        Object.assign(app, {
+            engine,
+            scheduler: new FrameScheduler(engine as unknown as AbstractEngine),
+            pixiApp: { renderer: { resetState: vi.fn() } },
+            sceneLayer: restorable(),
+        })
+        app['observeContextLoss']()
+    })
+
+    function addTextures() {
+        const textures = {
+            pixiTextures: [restorable(), restorable()],
+            babylonRenderTextures: [restorable()],
+            textureAtlases: [restorable()],
+            layeredTextures: [restorable()],
+            assetTextures: [restorable()],
+        }
+        for (const [key, list] of Object.entries(textures)) {
+            const set = app[key as keyof typeof textures] as Set<unknown>
+            list.forEach(texture => set.add(texture))
+        }
+        return Object.values(textures).flat()
+    }
+
+    it('pauses on loss and resumes once restored', () => {
+        app.start()
+
+        engine.loseContext()
+        expect(app.contextLost).toBe(true)
+        expect(app.scheduler.paused).toBe(true)
+
+        engine.restoreContext()
+        expect(app.contextLost).toBe(false)
+        expect(app.scheduler.paused).toBe(false)
+    })
+
+    it('stays paused after the restore when it was paused before the loss', () => {
+        app.scheduler.pause()
+
+        engine.loseContext()
+        engine.restoreContext()
+
+        expect(app.scheduler.paused).toBe(true)
+    })
+
+    it('restores every registered texture and the scene layer', () => {
+        const textures = addTextures()
+        engine.loseContext()
+        textures.forEach(texture => expect(texture.restore).not.toHaveBeenCalled())
+
+        engine.restoreContext()
+
+        textures.forEach(texture => expect(texture.restore).toHaveBeenCalledTimes(1))
+        expect((app.sceneLayer as unknown as { restore: () => void }).restore).toHaveBeenCalled()
+        expect(app.pixiApp.renderer.resetState).toHaveBeenCalled()
+        expect(engine.wipeCaches).toHaveBeenCalledWith(true)
+    })
+
+    it('notifies the application observables', () => {
+        const calls: string[] = []
+        app.onContextLostObservable.add(() => calls.push(`lost:${app.contextLost}`))
+        app.onContextRestoredObservable.add(() => {
+            calls.push(`restored:${app.contextLost}:${app.scheduler.paused}`)
+        })
+        app.start()
+
+        engine.loseContext()
+        engine.restoreContext()
+
+        expect(calls).toEqual(['lost:true', 'restored:false:false'])
+    })
+})
@@ -1,12 +1,48 @@
 import { Engine } from '@babylonjs/core/Engines/engine'
+import { Color4 } from '@babylonjs/core/Maths/math.color'
 import { Observable } from '@babylonjs/core/Misc/observable'
+import { RenderingGroup } from '@babylonjs/core/Rendering/renderingGroup'
 import { Scene } from '@babylonjs/core/scene'
-import { Application } from 'pixi.js'
+import { Application, Color } from 'pixi.js'
 
 import { createBabylonScene } from '../babylon/createBabylonScene.js'
+import type { BabylonAssetTexture } from '../integration/BabylonAssetTexture.js'
+import type { BabylonRenderTexture } from '../integration/BabylonRenderTexture.js'
+import type { PixiAssetTexture } from '../integration/PixiAssetTexture.js'
+import type { PixiCubeTexture } from '../integration/PixiCubeTexture.js'
+import type { PixiTexture } from '../integration/PixiTexture.js'
+import type { PixiTextureArray } from '../integration/PixiTextureArray.js'
+import type { PixiTextureAtlas } from '../integration/PixiTextureAtlas.js'
 import { createPixiApp } from '../pixi/createPixiApp.js'
+import { unbindPixiSamplers } from '../pixi/unbindPixiSamplers.js'
 
+import { CameraViewportManager } from './CameraViewportManager.js'
+import { CanvasResizer, pinIntrinsicCanvasSize, ResizeInfo } from './CanvasResizer.js'
+import { FrameScheduler } from './FrameScheduler.js'
+import { FrameStats } from './FrameStats.js'
+import { GlStateDebugger } from './GlStateDebugger.js'
+import { InputRouter } from './InputRouter.js'
+import { PixiContainerRegistry } from './PixiContainerRegistry.js'
+import { PixiLayer, PixiLayerManager } from './PixiLayer.js'
+import { SceneLayer } from './SceneLayer.js'
+import { SharedClock } from './SharedClock.js'
+import { TextureSyncScheduler } from './TextureSyncScheduler.js'
+import { WorldAnchorManager } from './WorldAnchorManager.js'
+import {
+    PixiBabylonApplicationOptions,
+    resolveCanvas,
+    validateApplicationOptions,
+} from './applicationOptions.js'
 import { babylonFix } from './babylonFix.js'
+import {
+    captureFrame,
+    captureFramePixels,
+    FrameCaptureOptions,
+    FrameImageOptions,
+} from './captureFrame.js'
+
+/** Canvas events that request a new frame in `onDemand` mode */
+const INVALIDATING_EVENTS = ['pointerdown', 'pointermove', 'pointerup', 'wheel', 'keydown', 'keyup']
 
 /**
  * Integrated application class that manages both PIXI and Babylon.js rendering
@@ -16,8 +52,9 @@ import { babylonFix } from './babylonFix.js'
  * ```typescript
  * // Basic usage - single canvas
  * const app = await PixiBabylonApplication.create({
- *   pixi: { width: 800, height: 600 },
- *   babylon: { canvas: '#canvas' }
+ *   canvas: '#canvas',
+ *   pixi: { roundPixels: false },
+ *   babylon: { antialias: true, engineOption: { stencil: true } }
  * })
  *
  * // Add PIXI content
@@ -34,96 +71,511 @@ export class PixiBabylonApplication {
     public engine!: Engine
     public gl!: WebGL2RenderingContext
 
+    /** Runs the phases of every frame, controls pausing and on-demand rendering */
+    public scheduler!: FrameScheduler
+
+    /** Time source of the PIXI ticker and the Babylon animations */
+    public clock!: SharedClock
+
+    /** Per-phase timings, draw calls and texture memory of the frames, set `enabled` to measure */
+    public stats!: FrameStats
+
     /** Observable that fires before each render frame */
     public beforeRenderObservable = new Observable<void>()
 
     /** Observable that fires after each render frame */
     public afterRenderObservable = new Observable<void>()
 
+    /** Observable that fires after both renderers have been resized */
+    public resizeObservable = new Observable<ResizeInfo>()
+
+    /** Observable that fires when the shared WebGL context is lost, rendering is paused */
+    public onContextLostObservable = new Observable<void>()
+
+    /** Observable that fires once both engines and all live textures have been rebuilt */
+    public onContextRestoredObservable = new Observable<void>()
+
+    /** Live PixiTextures of this application */
+    public readonly pixiTextures = new Set<PixiTexture>()
+
+    /** Live BabylonRenderTextures of this application */
+    public readonly babylonRenderTextures = new Set<BabylonRenderTexture>()
+
+    /** Live PixiTextureAtlases of this application */
+    public readonly textureAtlases = new Set<PixiTextureAtlas>()
+
+    /** Live PixiCubeTextures and PixiTextureArrays of this application */
+    public readonly layeredTextures = new Set<PixiCubeTexture | PixiTextureArray>()
+
+    /** Live PixiAssetTextures and BabylonAssetTextures of this application */
+    public readonly assetTextures = new Set<PixiAssetTexture | BabylonAssetTexture>()
+
+    /** Whether the shared WebGL context is currently lost */
+    public contextLost = false
+
+    /** PIXI layers composited around the Babylon scene, `default` holds the PIXI stage */
+    public readonly layers = new PixiLayerManager()
+
+    /** Syncs the automatically updated PixiTextures before each frame */
+    public readonly textureSync = new TextureSyncScheduler()
+
+    /** Factories rebuilding the content of PixiTextures loaded from serialized scenes */
+    public readonly containerRegistry = new PixiContainerRegistry()
+
+    /** The Babylon scene as a PIXI layer, set filters or a mask on its root to post-process it */
+    public sceneLayer!: SceneLayer
+
+    /** PIXI display objects following Babylon nodes, updated right before the PIXI layers */
+    public anchors!: WorldAnchorManager
+
+    /** Babylon cameras laid out in the rectangles of PIXI containers, updated before the render */
+    public viewports!: CameraViewportManager
+
+    /** Reports GL state leaked at engine handoffs, only set in `debug` mode */
+    public glStateDebugger?: GlStateDebugger
+
+    /** Routes canvas input to PIXI layers or the Babylon scene, unless `inputRouting` is disabled */
+    public inputRouter?: InputRouter
+
+    private resizer!: CanvasResizer
+    private readonly renderedLayers = new Set<PixiLayer>()
+    private readonly transparentRenderingHooks = new WeakSet<RenderingGroup>()
+    private resumeAfterContextRestore = false
+    private lastViewUpdateFlag = -1
+
     private constructor() {
         PixiBabylonApplication.lastCreateApplication = this
     }
+
+    /**
+     * Application created last, used when no application is passed to a texture
+     * Pass the application explicitly when several applications live on the same page
+     */
     static lastCreateApplication?: PixiBabylonApplication
 
+    private static readonly sceneApplications = new WeakMap<Scene, PixiBabylonApplication>()
+
+    /**
+     * Finds the application that owns a Babylon scene
+     */
+    static fromScene(scene: Scene): PixiBabylonApplication | undefined {
+        return PixiBabylonApplication.sceneApplications.get(scene)
+    }
+
     /**
      * Creates a new integrated PIXI-Babylon application
      */
     static async create(
-        config: {
-            canvas?: HTMLCanvasElement
-        } = {}
+        config: PixiBabylonApplicationOptions = {}
     ): Promise<PixiBabylonApplication> {
-        if (!config.canvas) {
-            config.canvas = document.createElement('canvas')
-            document.body.appendChild(config.canvas)
+        validateApplicationOptions(config)
+        const canvas = resolveCanvas(config.canvas)
+        if (config.width !== undefined) {
+            canvas.style.width = `${config.width}px`
+        }
+        if (config.height !== undefined) {
+            canvas.style.height = `${config.height}px`
+        }
+        if (!config.resizeTo) {
+            pinIntrinsicCanvasSize(canvas)
         }
         const app = new PixiBabylonApplication()
 
         // Initialize Babylon scene
-        const { engine, scene } = await createBabylonScene(config.canvas)
+        const { engine, scene } = await createBabylonScene(canvas, config.babylon)
         babylonFix(engine)
         app.gl = engine._gl
+        if (config.backgroundColor !== undefined) {
+            const [r, g, b, a] = new Color(config.backgroundColor).toArray()
+            scene.clearColor = new Color4(r, g, b, a)
+        }
         // Initialize PIXI application
-        app.pixiApp = await createPixiApp({}, config.canvas!, app.gl)
+        app.pixiApp = await createPixiApp(
+            {
+                resolution: Math.min(devicePixelRatio, config.maxResolution ?? 2),
+                ...config.pixi,
+                width: config.width ?? config.pixi?.width,
+                height: config.height ?? config.pixi?.height,
+            },
+            canvas,
+            app.gl
+        )
 
         app.engine = engine
         app.scene = scene
+        if (config.debug) {
+            app.glStateDebugger = new GlStateDebugger(
+                app.gl,
+                config.debug === true ? {} : config.debug
+            )
+        }
+        PixiBabylonApplication.sceneApplications.set(scene, app)
+        app.layers.add(new PixiLayer('default', app.pixiApp.stage))
+        app.sceneLayer = new SceneLayer(scene, app.pixiApp.renderer)
+        app.textureSync.budget = config.textureSyncBudget ?? Infinity
+
+        app.scheduler = new FrameScheduler(engine, {
+            targetFps: config.targetFps,
+            renderMode: config.renderMode,
+        })
+        app.clock = new SharedClock(config.clock)
+        app.clock.onStepObservable.add(deltaTime => app.advanceTime(deltaTime))
+        // the PIXI ticker is driven by the virtual time of the clock, never by its own
+        const { ticker } = app.pixiApp
+        // the layers are drawn in the pixiLayers phase, not on every step of the ticker
+        ticker.remove(app.pixiApp.render, app.pixiApp)
+        ticker.minFPS = 0
+        ticker.lastTime = app.clock.time
+        app.scheduler.add('update', ({ deltaTime }) => app.clock.tick(deltaTime), Infinity)
+        app.scheduler.add('update', () => app.beforeRenderObservable.notifyObservers())
+        app.scheduler.add('textureSync', ({ now }) => app.textureSync.update(now))
+        app.viewports = new CameraViewportManager(scene, app.pixiApp.renderer)
+        app.scheduler.add('babylonRender', () => app.viewports.update(), Infinity)
+        app.scheduler.add('babylonRender', () => app.renderScene())
+        app.anchors = new WorldAnchorManager(scene, app.pixiApp.renderer)
+        app.scheduler.add('pixiLayers', () => app.anchors.update(), Infinity)
+        app.scheduler.add('pixiLayers', () => app.renderPixi())
+        app.scheduler.add('post', () => app.afterRenderObservable.notifyObservers())
+        const statsOptions = typeof config.stats === 'object' ? config.stats : {}
+        app.stats = new FrameStats(app, statsOptions)
+        app.stats.enabled = !!config.stats
+        if (statsOptions.overlay) {
+            app.stats.showOverlay(statsOptions.overlay === true ? {} : statsOptions.overlay)
+        }
+        app.resizeObservable.add(() => app.scheduler.invalidate())
+        app.observeContextLoss()
+
+        app.resizer = new CanvasResizer(
+            canvas,
+            engine,
+            app.pixiApp.renderer,
+            {
+                resizeTo: config.resizeTo,
+                maxResolution: config.maxResolution ?? 2,
+                resolution: config.pixi?.resolution,
+            },
+            info => app.resizeObservable.notifyObservers(info)
+        )
+        app.resizer.resize()
+        if (config.autoResize ?? true) {
+            app.resizer.observe()
+        }
+
+        if (config.inputRouting ?? true) {
+            app.inputRouter = new InputRouter(canvas, scene, app.pixiApp.renderer, app.layers)
+            app.inputRouter.viewports = app.viewports
+            app.inputRouter.attach()
+        }
+        // window capture listeners run before the input router can stop the events
+        INVALIDATING_EVENTS.forEach(type => window.addEventListener(type, app.onInput, true))
+        app.observeScene()
 
         return app
     }
 
     /**
      * Starts the integrated render loop
-     * Renders both PIXI and Babylon content in the correct order
+     * Renders both PIXI and Babylon content in the correct order, see `scheduler` for the phases
      */
     start(): void {
-        this.engine.onEndFrameObservable.add(() => {
-            this.engine.wipeCaches(true)
-            this.renderPixi()
-        })
-        this.engine.runRenderLoop(() => {
-            this.beforeRenderObservable.notifyObservers()
-
-            // Render Babylon scene first (if there's an active camera)
-            if (this.scene.activeCamera) {
-                this.engine.wipeCaches(true)
-                this.scene.render()
-            } else {
-                // Then render PIXI content
-                this.renderPixi()
-            }
+        this.scheduler.start()
+    }
 
-            this.afterRenderObservable.notifyObservers()
-        })
+    /**
+     * Stops the render loop, `start()` renders again
+     */
+    stop(): void {
+        this.scheduler.stop()
+    }
 
-        // Handle PIXI rendering at the end of each Babylon frame
-        this.engine.onEndFrameObservable.add(() => {
-            this.engine.wipeCaches(true)
-            this.renderPixi()
-        })
+    /**
+     * Advances both engines by an exact amount of time and renders one frame right away
+     * Meant for frame stepping and deterministic tests, usually with a paused clock
+     *
+     * @param deltaTime - Virtual time to advance, defaults to the fixed step or a 60 fps frame
+     */
+    step(deltaTime?: number): void {
+        this.clock.step(deltaTime)
+        this.scheduler.renderFrame()
+    }
+
+    /**
+     * Captures the composited frame, 3D scene and PIXI layers, as an image file
+     * Rendered offscreen, so `preserveDrawingBuffer` is not needed
+     *
+     * @example
+     * ```typescript
+     * const blob = await app.capture({ type: 'image/webp', quality: 0.9, resolution: 2 })
+     * ```
+     */
+    async capture(options: FrameImageOptions = {}): Promise<Blob> {
+        return captureFrame(this, options)
+    }
+
+    /**
+     * Captures the composited frame as raw pixels, top row first
+     */
+    capturePixels(options: FrameCaptureOptions = {}): ImageData {
+        return captureFramePixels(this, options)
+    }
+
+    /**
+     * Current resolution shared by both renderers
+     */
+    get resolution(): number {
+        return this.resizer.info.resolution
+    }
+
+    /**
+     * Resizes both renderers to the current size of the canvas or the `resizeTo` target
+     * Only needed when `autoResize` is disabled
+     */
+    resize(): void {
+        this.resizer.resize()
     }
 
     /**
      * Destroys both applications and cleans up resources
+     * Textures created for this application are disposed first, other applications are untouched
      */
     destroy(): void {
+        this.scheduler.stop()
+        INVALIDATING_EVENTS.forEach(type => window.removeEventListener(type, this.onInput, true))
+        this.resizer.disconnect()
+        this.inputRouter?.detach()
+        this.pixiTextures.forEach(texture => texture.dispose())
+        this.babylonRenderTextures.forEach(texture => texture.dispose())
+        this.textureAtlases.forEach(atlas => atlas.dispose())
+        this.layeredTextures.forEach(texture => texture.dispose())
+        this.assetTextures.forEach(texture => texture.dispose())
+        this.textureSync.clear()
+        this.containerRegistry.clear()
+        this.anchors.clear()
+        this.viewports.clear()
+        PixiBabylonApplication.sceneApplications.delete(this.scene)
+        if (PixiBabylonApplication.lastCreateApplication === this) {
+            PixiBabylonApplication.lastCreateApplication = undefined
+        }
         this.beforeRenderObservable.clear()
         this.afterRenderObservable.clear()
+        this.resizeObservable.clear()
+        this.onContextLostObservable.clear()
+        this.onContextRestoredObservable.clear()
+        this.clock.onStepObservable.clear()
+        this.glStateDebugger?.dispose()
+        this.stats.dispose()
+        this.sceneLayer.dispose()
         this.pixiApp.destroy()
         this.scene.dispose()
         this.engine.dispose()
     }
 
     /**
-     * Renders the PIXI application
+     * Pauses on context loss and rebuilds the textures once Babylon restored the context
+     */
+    private observeContextLoss(): void {
+        this.engine.onContextLostObservable.add(() => this.handleContextLost())
+        this.engine.onContextRestoredObservable.add(() => this.handleContextRestored())
+    }
+
+    /**
+     * Pauses rendering until both engines have rebuilt their resources
+     */
+    private handleContextLost(): void {
+        this.contextLost = true
+        this.resumeAfterContextRestore = !this.scheduler.paused
+        this.scheduler.pause()
+        this.onContextLostObservable.notifyObservers()
+    }
+
+    /**
+     * Rewraps and re-syncs every live texture once Babylon is restored
+     * PIXI rebuilds synchronously on the restored event, Babylon rebuilds after a timeout,
+     * so both are ready when Babylon notifies
+     */
+    private handleContextRestored(): void {
+        this.pixiApp.renderer.resetState()
+        this.babylonRenderTextures.forEach(texture => texture.restore())
+        this.sceneLayer.restore()
+        this.pixiTextures.forEach(texture => texture.restore())
+        this.textureAtlases.forEach(atlas => atlas.restore())
+        this.layeredTextures.forEach(texture => texture.restore())
+        this.assetTextures.forEach(texture => texture.restore())
+        this.engine.wipeCaches(true)
+        this.contextLost = false
+        if (this.resumeAfterContextRestore) {
+            this.scheduler.resume()
+        }
+        this.onContextRestoredObservable.notifyObservers()
+    }
+
+    /**
+     * Renders the Babylon scene with the underlays and the rendering group layers
+     */
+    private renderScene(): void {
+        this.renderedLayers.clear()
+        const camera = this.scene.activeCamera
+        if (!camera) {
+            // Without a camera nothing clears the canvas for the underlays
+            this.engine.clear(this.scene.clearColor, true, true, true)
+            this.renderLayers(this.pendingLayers(this.layers.underlays))
+            return
+        }
+        this.engine.wipeCaches(true)
+        if (this.sceneLayer.isOffscreen) {
+            this.sceneLayer.renderScene()
+            this.glStateDebugger?.check('babylon')
+            this.engine.wipeCaches(true)
+            // the cameras cleared their offscreen target, not the canvas
+            this.engine.clear(this.scene.clearColor, true, true, true)
+            this.renderLayers([...this.pendingLayers(this.layers.underlays), this.sceneLayer])
+        } else {
+            // animations are advanced by the clock
+            this.scene.render(true, true)
+            this.glStateDebugger?.check('babylon')
+            this.engine.wipeCaches(true)
+        }
+
+        // keep rendering on demand while the camera or animations are still moving
+        const viewUpdateFlag = camera.getViewMatrix().updateFlag
+        if (viewUpdateFlag !== this.lastViewUpdateFlag || this.scene.animatables.length) {
+            this.lastViewUpdateFlag = viewUpdateFlag
+            this.scheduler.invalidate()
+        }
+    }
+
+    /**
+     * Advances the Babylon animations and the PIXI ticker by one step of the clock
+     * `scene.animationTimeScale` still scales the Babylon animations on top of the clock
+     */
+    private advanceTime(deltaTime: number): void {
+        const { scene } = this
+        scene['_animationRatio'] = deltaTime * (60 / 1000)
+        scene._animate(deltaTime * scene.animationTimeScale)
+        scene.onAfterAnimationsObservable.notifyObservers(scene)
+        if (scene.physicsEnabled) {
+            scene._advancePhysicsEngineStep(deltaTime)
+        }
+        this.pixiApp.ticker.update(this.clock.time)
+    }
+
+    /**
+     * Draws the layers of the rendering groups while Babylon renders the scene
+     * Registered once, so `stop()` and `start()` never stack observers
+     */
+    private observeScene(): void {
+        // Underlays go right after Babylon clears the canvas for the first camera
+        this.scene.onBeforeCameraRenderObservable.add(camera => {
+            if (this.isRenderingOffscreen || camera.outputRenderTarget) {
+                return
+            }
+            if (this.renderLayers(this.pendingLayers(this.layers.underlays))) {
+                this.engine.setViewport(camera.viewport)
+            }
+        })
+        this.scene.onAfterRenderingGroupObservable.add(info => {
+            if (this.isRenderingOffscreen || !info.camera) {
+                return
+            }
+            const layers = this.pendingLayers(this.layers.inRenderingGroup(info.renderingGroupId))
+            if (this.renderLayers(layers)) {
+                this.engine.setViewport(info.camera.viewport)
+            }
+        })
+        // depth-tested layers go between the opaque and the transparent meshes of their group
+        this.scene.onBeforeRenderingGroupObservable.add(info => {
+            const group = this.scene.renderingManager.getRenderingGroup(info.renderingGroupId)
+            if (this.transparentRenderingHooks.has(group)) {
+                return
+            }
+            this.transparentRenderingHooks.add(group)
+            const previous = group.onBeforeTransparentRendering
+            group.onBeforeTransparentRendering = () => {
+                previous?.()
+                this.renderDepthTestedLayers(group.index)
+            }
+        })
+    }
+
+    private readonly onInput = (event: Event) => {
+        if (event.target === this.pixiApp.canvas) {
+            this.scheduler.invalidate()
+        }
+    }
+
+    /**
+     * Renders the PIXI layers drawn after the Babylon scene
+     * Rendering group layers whose group was empty this frame are drawn first
      */
     private renderPixi(): void {
+        const groupLayers = this.layers.sorted.filter(layer => layer.renderingGroupId !== undefined)
+        this.renderLayers([
+            ...this.pendingLayers(groupLayers),
+            ...this.pendingLayers(this.layers.overlays),
+        ])
+    }
+
+    /**
+     * Renders the depth-tested part of the layers of a rendering group against its depth buffer
+     */
+    private renderDepthTestedLayers(renderingGroupId: number): void {
+        const camera = this.scene.activeCamera
+        if (this.isRenderingOffscreen || !camera) {
+            return
+        }
+        const layers = this.pendingLayers(this.layers.depthTestedInRenderingGroup(renderingGroupId))
+        const { renderer } = this.pixiApp
+        if (this.renderLayers(layers, layer => layer.renderDepthTested(renderer), false)) {
+            this.engine.setViewport(camera.viewport)
+        }
+    }
+
+    /**
+     * Layers that have not been drawn yet in the current frame
+     */
+    private pendingLayers<T extends PixiLayer>(layers: T[]): T[] {
+        return layers.filter(layer => !this.renderedLayers.has(layer))
+    }
+
+    /**
+     * Whether Babylon is currently drawing into a render target instead of the canvas
+     */
+    private get isRenderingOffscreen(): boolean {
+        return !!this.engine._currentRenderTarget
+    }
+
+    /**
+     * Draws PIXI layers onto the canvas, resetting the shared GL state on both sides
+     *
+     * @param layers - Layers to draw
+     * @param draw - Draws one layer, defaults to the whole layer
+     * @param markRendered - Whether the layers count as drawn for the rest of the frame
+     * @returns Whether anything was drawn
+     */
+    private renderLayers<T extends PixiLayer>(
+        layers: T[],
+        draw: (layer: T) => void = layer => layer.render(this.pixiApp.renderer),
+        markRendered = true
+    ): boolean {
+        if (!layers.length) {
+            return false
+        }
         const { gl } = this
+        const { renderer } = this.pixiApp
         gl.disable(gl.STENCIL_TEST)
         gl.stencilMask(0xff)
         gl.clear(gl.STENCIL_BUFFER_BIT)
-        this.pixiApp.renderer.resetState()
-        this.pixiApp.render()
-        this.pixiApp.renderer.resetState()
+        renderer.resetState()
+        for (const layer of layers) {
+            draw(layer)
+            if (markRendered) {
+                this.renderedLayers.add(layer)
+            }
+        }
+        unbindPixiSamplers(renderer)
+        renderer.resetState()
+        this.glStateDebugger?.check('pixi-layers')
+        this.engine.wipeCaches(true)
+        return true
     }
 }
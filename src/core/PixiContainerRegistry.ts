@@ -0,0 +1,48 @@
+import { Container } from 'pixi.js'
+
+/**
+ * Creates the PIXI content of a texture loaded from a serialized scene
+ */
+export type PixiContainerFactory = (contentKey: string) => Container
+
+/**
+ * Maps the content keys of PixiTextures to factories rebuilding their containers
+ *
+ * Serialized scenes only store the key of the content, the containers themselves are code.
+ * Register a factory for each key before loading a scene that uses PixiTextures.
+ *
+ * @example
+ * ```typescript
+ * app.containerRegistry.register('scoreboard', () => new Scoreboard())
+ * await SceneLoader.AppendAsync('', 'data:' + json, app.scene)
+ * ```
+ */
+export class PixiContainerRegistry {
+    private readonly factories = new Map<string, PixiContainerFactory>()
+
+    register(contentKey: string, factory: PixiContainerFactory): void {
+        this.factories.set(contentKey, factory)
+    }
+
+    unregister(contentKey: string): void {
+        this.factories.delete(contentKey)
+    }
+
+    has(contentKey: string): boolean {
+        return this.factories.has(contentKey)
+    }
+
+    /**
+     * Creates the container of a content key
+     *
+     * @returns The new container, or null when no factory is registered for the key
+     */
+    create(contentKey: string): Container | null {
+        const factory = this.factories.get(contentKey)
+        return factory ? factory(contentKey) : null
+    }
+
+    clear(): void {
+        this.factories.clear()
+    }
+}
@@ -0,0 +1,140 @@
+import { Container, Renderer } from 'pixi.js'
+
+import type { DepthLayer } from './DepthLayer.js'
+
+export interface PixiLayerOptions {
+    /** Order relative to the Babylon scene: negative draws behind it, zero and above in front of it */
+    order?: number
+    /** Draws the layer right after this Babylon rendering group instead of around the whole scene */
+    renderingGroupId?: number
+    /** Priority of the layer when routing input, defaults to the order */
+    inputPriority?: number
+}
+
+/**
+ * A named PIXI root container composited at a fixed position relative to the Babylon scene
+ */
+export class PixiLayer {
+    /** Order relative to the Babylon scene and to the other layers */
+    public order: number
+
+    /** Babylon rendering group the layer is drawn after, if any */
+    public renderingGroupId?: number
+
+    /** Priority of the layer when routing input, higher priorities are hit-tested first */
+    public inputPriority: number
+
+    constructor(
+        public readonly name: string,
+        public readonly root: Container = new Container(),
+        options: PixiLayerOptions = {}
+    ) {
+        this.order = options.order ?? 0
+        this.renderingGroupId = options.renderingGroupId
+        this.inputPriority = options.inputPriority ?? this.order
+    }
+
+    /** Whether the layer is drawn before the Babylon scene */
+    get isUnderlay(): boolean {
+        return this.renderingGroupId === undefined && this.order < 0
+    }
+
+    /** Whether the layer is drawn after the Babylon scene */
+    get isOverlay(): boolean {
+        return this.renderingGroupId === undefined && this.order >= 0
+    }
+
+    /** Whether part of the layer is drawn against the depth buffer inside its rendering group */
+    get isDepthTested(): boolean {
+        return false
+    }
+
+    /**
+     * Draws the layer onto the canvas, the application hands over the GL state around it
+     */
+    render(renderer: Renderer): void {
+        renderer.render({ container: this.root, clear: false })
+    }
+}
+
+/**
+ * Ordered collection of the PIXI layers of an application
+ *
+ * @example
+ * ```typescript
+ * const background = app.layers.create('background', { order: -1 })
+ * background.root.addChild(parallax)
+ *
+ * const hud = app.layers.create('hud', { order: 10 })
+ * hud.root.addChild(healthBar)
+ * ```
+ */
+export class PixiLayerManager {
+    private readonly layers: PixiLayer[] = []
+
+    /**
+     * Creates a layer with a new root container and adds it
+     */
+    create(name: string, options: PixiLayerOptions = {}): PixiLayer {
+        return this.add(new PixiLayer(name, new Container(), options))
+    }
+
+    /**
+     * Adds an existing layer, names must be unique
+     */
+    add<T extends PixiLayer>(layer: T): T {
+        if (this.get(layer.name)) {
+            throw new Error(`layer "${layer.name}" already exists!`)
+        }
+        this.layers.push(layer)
+        return layer
+    }
+
+    get(name: string): PixiLayer | undefined {
+        return this.layers.find(layer => layer.name === name)
+    }
+
+    /**
+     * Removes a layer, its root container is left to the caller
+     */
+    remove(name: string): PixiLayer | undefined {
+        const index = this.layers.findIndex(layer => layer.name === name)
+        if (index < 0) {
+            return undefined
+        }
+        return this.layers.splice(index, 1)[0]
+    }
+
+    /**
+     * All layers sorted by order, stable for equal orders
+     */
+    get sorted(): PixiLayer[] {
+        return [...this.layers].sort((a, b) => a.order - b.order)
+    }
+
+    /** Layers drawn before the Babylon scene */
+    get underlays(): PixiLayer[] {
+        return this.sorted.filter(layer => layer.isUnderlay)
+    }
+
+    /** Layers drawn after the Babylon scene */
+    get overlays(): PixiLayer[] {
+        return this.sorted.filter(layer => layer.isOverlay)
+    }
+
+    /**
+     * Layers drawn after the given Babylon rendering group
+     */
+    inRenderingGroup(renderingGroupId: number): PixiLayer[] {
+        return this.sorted.filter(layer => layer.renderingGroupId === renderingGroupId)
+    }
+
+    /**
+     * Depth-tested layers drawn before the transparent meshes of the given rendering group
+     */
+    depthTestedInRenderingGroup(renderingGroupId: number): DepthLayer[] {
+        return this.inRenderingGroup(renderingGroupId).filter(
+            (layer): layer is DepthLayer => layer.isDepthTested
+        )
+    }
+}
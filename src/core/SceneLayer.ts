@@ -0,0 +1,136 @@
+import { Camera } from '@babylonjs/core/Cameras/camera'
+import { RenderTargetTexture } from '@babylonjs/core/Materials/Textures/renderTargetTexture'
+import { Color4 } from '@babylonjs/core/Maths/math.color'
+import { Scene } from '@babylonjs/core/scene'
+import { groupD8, Renderer, Sprite, Texture, TextureSource } from 'pixi.js'
+
+import { shareBabylonTexture } from '../pixi/shareBabylonTexture.js'
+
+import { PixiLayer } from './PixiLayer.js'
+
+/**
+ * The Babylon scene presented as a PIXI layer, so PIXI filters and masks apply to the 3D world
+ *
+ * As long as the root has no filters, no mask and full alpha, the scene is rendered straight to
+ * the canvas and this layer costs nothing. Otherwise the cameras render into an offscreen target
+ * that a sprite of the root shows between the underlays and the overlays.
+ * Layers of a rendering group are then drawn over the whole scene instead of between the groups.
+ *
+ * @example
+ * ```typescript
+ * // blur the world behind the pause menu
+ * app.sceneLayer.root.filters = [new BlurFilter({ strength: 8 })]
+ * ```
+ */
+export class SceneLayer extends PixiLayer {
+    /** Sprite showing the offscreen render of the scene */
+    public readonly sprite = new Sprite()
+
+    /** Whether to render offscreen even without filters, mask or alpha */
+    public forceOffscreen = false
+
+    /** Offscreen target of the cameras, created on first use */
+    public renderTarget?: RenderTargetTexture
+
+    private source?: TextureSource
+
+    constructor(
+        private readonly scene: Scene,
+        private readonly renderer: Renderer
+    ) {
+        super('scene')
+        this.root.addChild(this.sprite)
+    }
+
+    /** Whether the scene is routed through PIXI this frame */
+    get isOffscreen(): boolean {
+        const { root } = this
+        return this.forceOffscreen || !!root.filters?.length || !!root.mask || root.alpha < 1
+    }
+
+    /**
+     * Renders the cameras into the offscreen target shown by the sprite
+     * Cameras rendering into their own target are left alone
+     */
+    renderScene(): void {
+        const { scene } = this
+        const renderTarget = this.prepareRenderTarget()
+        const cameras: Camera[] = scene.activeCameras?.length
+            ? scene.activeCameras
+            : [scene.activeCamera!]
+        const redirected = cameras.filter(camera => !camera.outputRenderTarget)
+        redirected.forEach(camera => (camera.outputRenderTarget = renderTarget))
+        try {
+            scene.render(true, true)
+        } finally {
+            redirected.forEach(camera => (camera.outputRenderTarget = null))
+        }
+    }
+
+    /**
+     * Points the sprite at the WebGL texture again after the context was restored
+     */
+    restore(): void {
+        if (this.renderTarget && this.source) {
+            shareBabylonTexture(this.source, this.renderTarget.getInternalTexture()!, this.renderer)
+        }
+    }
+
+    dispose(): void {
+        this.releaseRenderTarget()
+        this.root.destroy({ children: true })
+    }
+
+    /**
+     * Creates the offscreen target, or recreates it when the canvas was resized
+     */
+    private prepareRenderTarget(): RenderTargetTexture {
+        const engine = this.scene.getEngine()
+        const width = engine.getRenderWidth()
+        const height = engine.getRenderHeight()
+        const { renderTarget } = this
+        if (renderTarget) {
+            const size = renderTarget.getSize()
+            if (size.width === width && size.height === height) {
+                return renderTarget
+            }
+            this.releaseRenderTarget()
+        }
+        const target = new RenderTargetTexture('sceneLayer', { width, height }, this.scene, {
+            generateMipMaps: false,
+            generateStencilBuffer: true,
+        })
+        // a transparent clear keeps the blended output premultiplied, the canvas has the clear color
+        target.clearColor = new Color4(0, 0, 0, 0)
+        this.renderTarget = target
+
+        const { screen } = this.renderer
+        const resolution = width / screen.width
+        this.source = new TextureSource({
+            width: width / resolution,
+            height: height / resolution,
+            resolution,
+            alphaMode: 'premultiplied-alpha',
+            label: 'sceneLayer',
+        })
+        shareBabylonTexture(this.source, target.getInternalTexture()!, this.renderer)
+        this.sprite.texture = new Texture({
+            source: this.source,
+            rotate: groupD8.MIRROR_VERTICAL,
+        })
+        this.sprite.setSize(screen.width, screen.height)
+        return target
+    }
+
+    private releaseRenderTarget(): void {
+        const texture = this.sprite.texture
+        this.sprite.texture = Texture.EMPTY
+        if (texture !== Texture.EMPTY) {
+            texture.destroy()
+        }
+        this.source?.destroy()
+        this.source = undefined
+        this.renderTarget?.dispose()
+        this.renderTarget = undefined
+    }
+}
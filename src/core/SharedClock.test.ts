@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+
+import { SharedClock, SharedClockOptions } from './SharedClock.js'
+
+function createClock(options: SharedClockOptions = {}) {
+    const clock = new SharedClock(options)
+    const steps: number[] = []
+    clock.onStepObservable.add(deltaTime => steps.push(deltaTime))
+    return { clock, steps }
+}
+
+describe('SharedClock', () => {
+    it('advances by the frame time without a fixed step', () => {
+        const { clock, steps } = createClock()
+
+        clock.tick(16)
+        clock.tick(20)
+
+        expect(steps).toEqual([16, 20])
+        expect(clock.time).toBe(36)
+        expect(clock.deltaTime).toBe(20)
+    })
+
+    it('clamps long frames to maxDeltaTime', () => {
+        const { clock, steps } = createClock({ maxDeltaTime: 50 })
+
+        clock.tick(1000)
+
+        expect(steps).toEqual([50])
+    })
+
+    it('accumulates fixed steps across frames', () => {
+        const { clock, steps } = createClock({ fixedStep: 10 })
+
+        clock.tick(6) // not enough for a step
+        expect(steps).toEqual([])
+        clock.tick(6) // 12 accumulated, one step, 2 left
+        expect(steps).toEqual([10])
+        clock.tick(25) // 27 accumulated, two steps, 7 left
+        expect(steps).toEqual([10, 10, 10])
+        expect(clock.deltaTime).toBe(20)
+        clock.tick(3)
+        expect(steps).toHaveLength(4)
+        expect(clock.time).toBe(40)
+    })
+
+    it('is deterministic for the same frame times', () => {
+        const frames = [16.7, 33.1, 8.2, 16.6, 50, 1]
+        const run = () => {
+            const { clock, steps } = createClock({ fixedStep: 1000 / 60 })
+            frames.forEach(frame => clock.tick(frame))
+            return { steps, time: clock.time }
+        }
+
+        expect(run()).toEqual(run())
+    })
+
+    it('limits the steps per frame and drops the backlog', () => {
+        const { clock, steps } = createClock({ fixedStep: 10, maxSteps: 3, maxDeltaTime: 1000 })
+
+        clock.tick(95)
+        expect(steps).toEqual([10, 10, 10])
+
+        // at most one step of the backlog is kept
+        clock.tick(0)
+        expect(steps).toHaveLength(4)
+        clock.tick(0)
+        expect(steps).toHaveLength(4)
+    })
+
+    it('scales the time with timeScale', () => {
+        const { clock, steps } = createClock({ fixedStep: 10 })
+        clock.timeScale = 0.5
+
+        clock.tick(40)
+        expect(steps).toEqual([10, 10])
+
+        clock.timeScale = 2
+        clock.tick(10)
+        expect(steps).toEqual([10, 10, 10, 10])
+        expect(clock.time).toBe(40)
+    })
+
+    it('does not advance while paused', () => {
+        const { clock, steps } = createClock()
+        clock.pause()
+
+        clock.tick(16)
+
+        expect(clock.paused).toBe(true)
+        expect(steps).toEqual([])
+        expect(clock.deltaTime).toBe(0)
+
+        clock.resume()
+        clock.tick(16)
+        expect(steps).toEqual([16])
+    })
+
+    it('steps by an exact amount while paused, replacing the next tick', () => {
+        const { clock, steps } = createClock({ fixedStep: 10 })
+        clock.pause()
+
+        clock.step()
+        expect(steps).toEqual([10])
+        expect(clock.deltaTime).toBe(10)
+
+        // the frame rendered for the step does not advance again
+        clock.resume()
+        clock.tick(16)
+        expect(steps).toEqual([10])
+
+        clock.step(5)
+        expect(steps).toEqual([10, 5])
+        expect(clock.time).toBe(15)
+    })
+
+    it('steps a 60 fps frame without a fixed step', () => {
+        const { clock, steps } = createClock()
+
+        clock.step()
+
+        expect(steps).toEqual([1000 / 60])
+    })
+})
@@ -0,0 +1,129 @@
+import { Observable } from '@babylonjs/core/Misc/observable'
+
+export interface SharedClockOptions {
+    /** Multiplier applied to the real time, defaults to 1 */
+    timeScale?: number
+    /** Duration of a fixed step in milliseconds, 0 advances by the frame time, defaults to 0 */
+    fixedStep?: number
+    /** Maximum number of fixed steps per frame, the remaining time is dropped, defaults to 5 */
+    maxSteps?: number
+    /** Upper bound for the real time of a frame in milliseconds, defaults to 100 */
+    maxDeltaTime?: number
+}
+
+/**
+ * Single time source for both engines
+ *
+ * The clock turns the real frame time into virtual time: scaled, paused, and optionally split
+ * into fixed steps. Every step is broadcast through `onStepObservable`, which the application
+ * uses to advance the Babylon animations and the PIXI ticker by exactly the same amount.
+ * A paused clock can still be advanced step by step with `step()`, deterministically.
+ *
+ * @example
+ * ```typescript
+ * app.clock.timeScale = 0.25 // slow motion in both engines
+ *
+ * app.clock.pause()
+ * app.step(1000 / 60) // renders exactly one 60 fps frame
+ * ```
+ */
+export class SharedClock {
+    /** Multiplier applied to the real time */
+    public timeScale: number
+
+    /** Duration of a fixed step in milliseconds, 0 advances by the frame time */
+    public fixedStep: number
+
+    /** Maximum number of fixed steps per frame */
+    public maxSteps: number
+
+    /** Upper bound for the real time of a frame in milliseconds */
+    public maxDeltaTime: number
+
+    /** Virtual time in milliseconds */
+    public time = 0
+
+    /** Virtual time advanced during the last tick or step, in milliseconds */
+    public deltaTime = 0
+
+    /** Observable that fires for each step with its duration in milliseconds */
+    public readonly onStepObservable = new Observable<number>()
+
+    private isPaused = false
+    private accumulator = 0
+    private stepped = false
+
+    constructor(options: SharedClockOptions = {}) {
+        this.timeScale = options.timeScale ?? 1
+        this.fixedStep = options.fixedStep ?? 0
+        this.maxSteps = options.maxSteps ?? 5
+        this.maxDeltaTime = options.maxDeltaTime ?? 100
+    }
+
+    /** Whether the time stands still, only `step()` advances it */
+    get paused(): boolean {
+        return this.isPaused
+    }
+
+    pause(): void {
+        this.isPaused = true
+    }
+
+    resume(): void {
+        this.isPaused = false
+    }
+
+    /**
+     * Advances the clock by the real time of a frame
+     *
+     * @param realDeltaTime - Real time since the previous frame, in milliseconds
+     */
+    tick(realDeltaTime: number): void {
+        if (this.stepped) {
+            // the time of this frame was given by step()
+            this.stepped = false
+            return
+        }
+        this.deltaTime = 0
+        if (this.isPaused) {
+            return
+        }
+        const deltaTime = Math.min(realDeltaTime, this.maxDeltaTime) * this.timeScale
+        if (!this.fixedStep) {
+            this.advance(deltaTime)
+            return
+        }
+        this.accumulator += deltaTime
+        let steps = 0
+        while (this.accumulator >= this.fixedStep && steps < this.maxSteps) {
+            this.accumulator -= this.fixedStep
+            this.advance(this.fixedStep)
+            steps++
+        }
+        if (steps === this.maxSteps) {
+            // too far behind, drop the time instead of spiraling
+            this.accumulator = Math.min(this.accumulator, this.fixedStep)
+        }
+    }
+
+    /**
+     * Advances the clock by an exact amount of virtual time, also while paused
+     * The step replaces the time of the next tick
+     *
+     * @param deltaTime - Virtual time to advance, defaults to the fixed step or a 60 fps frame
+     */
+    step(deltaTime: number = this.fixedStep || 1000 / 60): void {
+        this.deltaTime = 0
+        this.stepped = true
+        this.advance(deltaTime)
+    }
+
+    private advance(deltaTime: number): void {
+        if (deltaTime <= 0) {
+            return
+        }
+        this.time += deltaTime
+        this.deltaTime += deltaTime
+        this.onStepObservable.notifyObservers(deltaTime)
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * A rectangle placed by the packer
+ */
+export interface PackedRect {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+interface Shelf {
+    y: number
+    height: number
+    /** Next free x on the shelf */
+    x: number
+}
+
+/**
+ * Packs rectangles into a square area, row by row
+ *
+ * Each rectangle goes onto the first shelf that is high enough and has room left, or onto a new
+ * shelf below the others. Freed rectangles are not reused, pack everything again to reclaim them.
+ */
+export class ShelfPacker {
+    private readonly shelves: Shelf[] = []
+
+    constructor(public readonly size: number) {}
+
+    /**
+     * Places a rectangle
+     *
+     * @returns The placed rectangle, or null when it does not fit
+     */
+    insert(width: number, height: number): PackedRect | null {
+        const { size, shelves } = this
+        if (width > size || height > size) {
+            return null
+        }
+        for (const shelf of shelves) {
+            // shelves much higher than the rectangle would waste too much space
+            if (height <= shelf.height && height >= shelf.height / 2 && shelf.x + width <= size) {
+                const rect = { x: shelf.x, y: shelf.y, width, height }
+                shelf.x += width
+                return rect
+            }
+        }
+        const last = shelves[shelves.length - 1]
+        const y = last ? last.y + last.height : 0
+        if (y + height > size) {
+            return null
+        }
+        shelves.push({ y, height, x: width })
+        return { x: 0, y, width, height }
+    }
+
+    /**
+     * Places all rectangles into a new packer, highest first
+     *
+     * @returns The packer and the placed rectangles in the order of the input,
+     * or null when they do not all fit
+     */
+    static pack(
+        size: number,
+        rects: { width: number; height: number }[]
+    ): { packer: ShelfPacker; packed: PackedRect[] } | null {
+        const packer = new ShelfPacker(size)
+        const order = rects.map((_, i) => i).sort((a, b) => rects[b].height - rects[a].height)
+        const packed: PackedRect[] = new Array(rects.length)
+        for (const i of order) {
+            const rect = packer.insert(rects[i].width, rects[i].height)
+            if (!rect) {
+                return null
+            }
+            packed[i] = rect
+        }
+        return { packer, packed }
+    }
+
+    clear(): void {
+        this.shelves.length = 0
+    }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+
+import { SyncableTexture, TextureSyncScheduler } from './TextureSyncScheduler.js'
+
+let now = 0
+
+/**
+ * Texture that is dirty until it is synced, or always when `always` is set
+ */
+class MockTexture implements SyncableTexture {
+    lastSyncTime = 0
+    dirty = true
+    syncs = 0
+
+    constructor(
+        public readonly name: string,
+        private readonly always = false
+    ) {}
+
+    needsSync(): boolean {
+        return this.always || this.dirty
+    }
+
+    sync(): void {
+        this.syncs++
+        this.dirty = false
+        this.lastSyncTime = now
+    }
+}
+
+function syncedNames(textures: MockTexture[], update: () => void): string[] {
+    const before = textures.map(texture => texture.syncs)
+    update()
+    return textures.filter((texture, i) => texture.syncs > before[i]).map(texture => texture.name)
+}
+
+describe('TextureSyncScheduler', () => {
+    it('syncs every dirty texture without a budget', () => {
+        const scheduler = new TextureSyncScheduler()
+        const textures = ['a', 'b', 'c'].map(name => new MockTexture(name))
+        textures.forEach(texture => scheduler.add(texture))
+
+        scheduler.update(now)
+
+        expect(scheduler.syncCount).toBe(3)
+        expect(textures.every(texture => texture.syncs === 1)).toBe(true)
+    })
+
+    it('skips clean and removed textures', () => {
+        const scheduler = new TextureSyncScheduler()
+        const clean = new MockTexture('clean')
+        clean.dirty = false
+        const removed = new MockTexture('removed')
+        scheduler.add(clean)
+        scheduler.add(removed)
+        scheduler.remove(removed)
+
+        scheduler.update(now)
+
+        expect(scheduler.syncCount).toBe(0)
+    })
+
+    it('carries textures over the budget to the next frame', () => {
+        const scheduler = new TextureSyncScheduler(2)
+        const textures = ['a', 'b', 'c', 'd', 'e'].map(name => new MockTexture(name))
+        textures.forEach(texture => scheduler.add(texture))
+
+        now = 1
+        expect(syncedNames(textures, () => scheduler.update(now))).toEqual(['a', 'b'])
+        now = 2
+        expect(syncedNames(textures, () => scheduler.update(now))).toEqual(['c', 'd'])
+        now = 3
+        expect(syncedNames(textures, () => scheduler.update(now))).toEqual(['e'])
+        expect(scheduler.syncCount).toBe(1)
+    })
+
+    it('syncs the least recently synced textures first', () => {
+        const scheduler = new TextureSyncScheduler(1)
+        const textures = ['a', 'b', 'c'].map(name => new MockTexture(name, true))
+        textures.forEach(texture => scheduler.add(texture))
+        now = 0
+        textures.forEach((texture, i) => (texture.lastSyncTime = 10 - i))
+
+        const order: string[] = []
+        for (now = 11; now < 17; now++) {
+            order.push(...syncedNames(textures, () => scheduler.update(now)))
+        }
+
+        // every texture gets its turn despite always being dirty
+        expect(order).toEqual(['c', 'b', 'a', 'c', 'b', 'a'])
+    })
+})
@@ -0,0 +1,66 @@
+/**
+ * A texture whose content is re-rendered by the scheduler
+ */
+export interface SyncableTexture {
+    /** Time of the last sync, in milliseconds */
+    readonly lastSyncTime: number
+    /** Whether the texture wants to be synced at the given time */
+    needsSync(now: number): boolean
+    /** Re-renders the texture content */
+    sync(): void
+}
+
+/**
+ * Syncs automatically updated textures once per frame within a global budget
+ *
+ * Textures over the budget stay dirty and are synced first on the next frame,
+ * the least recently synced textures always go first.
+ */
+export class TextureSyncScheduler {
+    /** Maximum number of texture syncs per frame */
+    public budget: number
+
+    /** Number of textures synced during the last update */
+    public syncCount = 0
+
+    private readonly textures = new Set<SyncableTexture>()
+
+    constructor(budget = Infinity) {
+        this.budget = budget
+    }
+
+    add(texture: SyncableTexture): void {
+        this.textures.add(texture)
+    }
+
+    remove(texture: SyncableTexture): void {
+        this.textures.delete(texture)
+    }
+
+    clear(): void {
+        this.textures.clear()
+    }
+
+    /**
+     * Syncs the dirty textures, least recently synced first, until the budget is spent
+     */
+    update(now = performance.now()): void {
+        this.syncCount = 0
+        const dirty: SyncableTexture[] = []
+        this.textures.forEach(texture => {
+            if (texture.needsSync(now)) {
+                dirty.push(texture)
+            }
+        })
+        if (dirty.length > this.budget) {
+            dirty.sort((a, b) => a.lastSyncTime - b.lastSyncTime)
+        }
+        for (const texture of dirty) {
+            if (this.syncCount >= this.budget) {
+                break
+            }
+            texture.sync()
+            this.syncCount++
+        }
+    }
+}
@@ -0,0 +1,336 @@
+import { Camera } from '@babylonjs/core/Cameras/camera'
+import { Ray } from '@babylonjs/core/Culling/ray'
+import { Vector3 } from '@babylonjs/core/Maths/math.vector'
+import { AbstractMesh } from '@babylonjs/core/Meshes/abstractMesh'
+import { TransformNode } from '@babylonjs/core/Meshes/transformNode'
+import { Scene } from '@babylonjs/core/scene'
+import { Container, Point, PointData, Renderer } from 'pixi.js'
+
+/** What a PIXI display object follows: a Babylon node or a fixed world position */
+export type WorldAnchorTarget = TransformNode | Vector3
+
+export interface WorldAnchorOptions {
+    /** Camera to project through, defaults to the active camera of the scene */
+    camera?: Camera
+    /** Offset in world units added to the target position */
+    worldOffset?: Vector3
+    /** Offset in PIXI units added to the projected position */
+    offset?: PointData
+    /** Distance at which the display object keeps its scale, scaling is disabled when 0 */
+    scaleDistance?: number
+    /** Lower bound of the distance scale, defaults to 0 */
+    minScale?: number
+    /** Upper bound of the distance scale, defaults to no limit */
+    maxScale?: number
+    /** Whether targets outside the view are pinned to the screen edge instead of hidden */
+    clampToScreen?: boolean
+    /** Distance in PIXI units kept from the screen edge when clamping, defaults to 0 */
+    screenMargin?: number
+    /** Whether the display object is hidden while the target is outside the view, defaults to true */
+    frustumCulling?: boolean
+    /** Whether the display object is hidden while scene geometry covers the target */
+    occlusion?: boolean
+    /** Meshes that can occlude the target, defaults to pickable and visible meshes */
+    occlusionPredicate?: (mesh: AbstractMesh) => boolean
+    /** Whether closer targets are drawn over farther ones within the same parent */
+    depthSort?: boolean
+}
+
+/**
+ * A PIXI display object attached to a position in the Babylon world
+ */
+export class WorldAnchor {
+    /** Resolved options */
+    public readonly options: Required<Omit<WorldAnchorOptions, 'camera' | 'occlusionPredicate'>> &
+        Pick<WorldAnchorOptions, 'camera' | 'occlusionPredicate'>
+
+    /** World position of the target during the last update */
+    public readonly worldPosition = new Vector3()
+
+    /** Projected position in global PIXI coordinates during the last update */
+    public readonly screenPosition = new Point()
+
+    /** Distance from the camera to the target during the last update */
+    public distance = 0
+
+    /** Whether the target was inside the view during the last update */
+    public inView = false
+
+    /** Whether scene geometry covered the target during the last update */
+    public occluded = false
+
+    /** Depth of the target in the depth buffer during the last update, 0 at the near plane */
+    public depth = 0
+
+    /**
+     * Whether the anchor hid the display object during the last update, off-screen or occluded
+     * Applied through `renderable`, `visible` is left to the application
+     */
+    public hidden = false
+
+    private readonly baseScale: PointData
+
+    constructor(
+        public readonly displayObject: Container,
+        public target: WorldAnchorTarget,
+        options: WorldAnchorOptions = {}
+    ) {
+        this.options = {
+            worldOffset: Vector3.Zero(),
+            offset: { x: 0, y: 0 },
+            scaleDistance: 0,
+            minScale: 0,
+            maxScale: Infinity,
+            clampToScreen: false,
+            screenMargin: 0,
+            frustumCulling: true,
+            occlusion: false,
+            depthSort: false,
+            ...options,
+        }
+        this.baseScale = { x: displayObject.scale.x, y: displayObject.scale.y }
+    }
+
+    /**
+     * Restores the scale the display object had when it was attached
+     */
+    resetScale(): void {
+        this.displayObject.scale.set(this.baseScale.x, this.baseScale.y)
+    }
+
+    /**
+     * Scales the display object relative to the scale it had when it was attached
+     */
+    applyScale(scale: number): void {
+        this.displayObject.scale.set(this.baseScale.x * scale, this.baseScale.y * scale)
+    }
+}
+
+const ndc = new Vector3()
+const direction = new Vector3()
+const local = new Point()
+
+/**
+ * Moves PIXI display objects so they follow Babylon nodes or world positions
+ *
+ * Targets are projected through the camera into the viewport of the camera, expressed in the
+ * CSS units of the PIXI screen, so the resolution of either renderer does not matter. The result
+ * is converted into the local space of the display object's parent, transformed stages included.
+ * Anchors are updated once per frame right before the PIXI layers are drawn, layers drawn inside
+ * the Babylon render (underlays and rendering group layers) use the position of the last frame.
+ *
+ * @example
+ * ```typescript
+ * const nameplate = new Text({ text: 'Bob' })
+ * nameplate.anchor.set(0.5, 1)
+ * hud.root.addChild(nameplate)
+ *
+ * app.anchors.attach(nameplate, character, {
+ *   worldOffset: new Vector3(0, 2, 0),
+ *   scaleDistance: 10,
+ *   occlusion: true,
+ *   depthSort: true,
+ * })
+ * ```
+ */
+export class WorldAnchorManager {
+    private readonly anchors: WorldAnchor[] = []
+
+    constructor(
+        private readonly scene: Scene,
+        private readonly renderer: Renderer
+    ) {}
+
+    /** Number of attached anchors */
+    get count(): number {
+        return this.anchors.length
+    }
+
+    /**
+     * Attaches a display object to a node or a world position
+     */
+    attach(
+        displayObject: Container,
+        target: WorldAnchorTarget,
+        options: WorldAnchorOptions = {}
+    ): WorldAnchor {
+        this.detach(displayObject)
+        const anchor = new WorldAnchor(displayObject, target, options)
+        this.anchors.push(anchor)
+        return anchor
+    }
+
+    /**
+     * Stops moving a display object, it keeps its last position
+     */
+    detach(anchorOrDisplayObject: WorldAnchor | Container): void {
+        const index = this.anchors.findIndex(
+            anchor =>
+                anchor === anchorOrDisplayObject || anchor.displayObject === anchorOrDisplayObject
+        )
+        if (index >= 0) {
+            const [anchor] = this.anchors.splice(index, 1)
+            this.setHidden(anchor, false)
+        }
+    }
+
+    get(displayObject: Container): WorldAnchor | undefined {
+        return this.anchors.find(anchor => anchor.displayObject === displayObject)
+    }
+
+    clear(): void {
+        this.anchors.forEach(anchor => this.setHidden(anchor, false))
+        this.anchors.length = 0
+    }
+
+    /**
+     * Projects every anchor and moves its display object
+     */
+    update(): void {
+        for (let i = this.anchors.length - 1; i >= 0; i--) {
+            const anchor = this.anchors[i]
+            const { target } = anchor
+            if (
+                anchor.displayObject.destroyed ||
+                (target instanceof TransformNode && target.isDisposed())
+            ) {
+                this.anchors.splice(i, 1)
+                continue
+            }
+            this.updateAnchor(anchor)
+        }
+    }
+
+    /**
+     * Projects one anchor right away, for content drawn before the anchors are updated
+     */
+    updateAnchor(anchor: WorldAnchor): void {
+        const { options, displayObject, worldPosition, screenPosition } = anchor
+        const camera = options.camera ?? this.scene.activeCamera
+        if (!camera) {
+            this.setHidden(anchor, true)
+            return
+        }
+        const { target } = anchor
+        if (target instanceof TransformNode) {
+            worldPosition.copyFrom(target.getAbsolutePosition())
+        } else {
+            worldPosition.copyFrom(target)
+        }
+        worldPosition.addInPlace(options.worldOffset)
+
+        // project into normalized device coordinates, keeping w to detect targets behind
+        const m = camera.getTransformationMatrix().m
+        const { x, y, z } = worldPosition
+        const w = x * m[3] + y * m[7] + z * m[11] + m[15] || 1e-6
+        ndc.set(
+            (x * m[0] + y * m[4] + z * m[8] + m[12]) / w,
+            (x * m[1] + y * m[5] + z * m[9] + m[13]) / w,
+            (x * m[2] + y * m[6] + z * m[10] + m[14]) / w
+        )
+        anchor.distance = Vector3.Distance(camera.globalPosition, worldPosition)
+        anchor.depth = this.scene.getEngine().isNDCHalfZRange ? ndc.z : (ndc.z + 1) / 2
+        anchor.inView = w > 0 && Math.abs(ndc.x) <= 1 && Math.abs(ndc.y) <= 1 && ndc.z <= 1
+
+        if (!anchor.inView) {
+            if (!options.clampToScreen) {
+                this.setHidden(anchor, options.frustumCulling)
+                if (options.frustumCulling) {
+                    return
+                }
+            } else {
+                this.clampToEdge(w)
+            }
+        }
+
+        // Babylon viewports start at the bottom, PIXI coordinates at the top
+        const { width, height } = this.renderer.screen
+        const viewport = camera.viewport
+        const viewportWidth = viewport.width * width
+        const viewportHeight = viewport.height * height
+        const left = viewport.x * width
+        const top = (1 - viewport.y - viewport.height) * height
+        let screenX = left + ((ndc.x + 1) / 2) * viewportWidth + options.offset.x
+        let screenY = top + ((1 - ndc.y) / 2) * viewportHeight + options.offset.y
+        if (!anchor.inView && options.clampToScreen) {
+            const margin = options.screenMargin
+            screenX = Math.min(Math.max(screenX, left + margin), left + viewportWidth - margin)
+            screenY = Math.min(Math.max(screenY, top + margin), top + viewportHeight - margin)
+        }
+        screenPosition.set(screenX, screenY)
+
+        anchor.occluded = options.occlusion && anchor.inView && this.isOccluded(anchor, camera)
+        this.setHidden(anchor, anchor.occluded)
+
+        const parent = displayObject.parent
+        if (parent) {
+            parent.toLocal(screenPosition, undefined, local)
+            displayObject.position.copyFrom(local)
+        } else {
+            displayObject.position.copyFrom(screenPosition)
+        }
+
+        if (options.scaleDistance > 0) {
+            const scale = options.scaleDistance / Math.max(anchor.distance, 1e-6)
+            anchor.applyScale(Math.min(Math.max(scale, options.minScale), options.maxScale))
+        }
+        if (options.depthSort) {
+            if (parent) {
+                parent.sortableChildren = true
+            }
+            displayObject.zIndex = -anchor.distance
+        }
+    }
+
+    /**
+     * Hides or shows the display object for the anchor without touching its `visible` flag
+     */
+    private setHidden(anchor: WorldAnchor, hidden: boolean): void {
+        anchor.hidden = hidden
+        if (!anchor.displayObject.destroyed) {
+            anchor.displayObject.renderable = !hidden
+        }
+    }
+
+    /**
+     * Pushes the normalized position of an off-screen target onto the edge of the view
+     * Targets behind the camera project mirrored, so their direction is flipped first
+     */
+    private clampToEdge(w: number): void {
+        if (w <= 0) {
+            ndc.x = -ndc.x
+            ndc.y = -ndc.y
+        }
+        const extent = Math.max(Math.abs(ndc.x), Math.abs(ndc.y), 1e-6)
+        if (extent > 1 || w <= 0) {
+            ndc.x /= extent
+            ndc.y /= extent
+        }
+    }
+
+    private isOccluded(anchor: WorldAnchor, camera: Camera): boolean {
+        const origin = camera.globalPosition
+        anchor.worldPosition.subtractToRef(origin, direction)
+        const length = direction.length()
+        if (length === 0) {
+            return false
+        }
+        const { target } = anchor
+        const predicate =
+            anchor.options.occlusionPredicate ??
+            ((mesh: AbstractMesh) => mesh.isPickable && mesh.isVisible && mesh.isEnabled())
+        const ray = new Ray(origin, direction.scaleInPlace(1 / length), length)
+        const hit = this.scene.pickWithRay(
+            ray,
+            mesh =>
+                predicate(mesh) &&
+                !(
+                    target instanceof TransformNode &&
+                    (mesh === target || mesh.isDescendantOf(target))
+                ),
+            true
+        )
+        // geometry right at the target belongs to it
+        return !!hit?.hit && hit.distance < length - 1e-3
+    }
+}
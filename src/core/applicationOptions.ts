@@ -0,0 +1,113 @@
+import { ApplicationOptions, ColorSource } from 'pixi.js'
+
+import { BabylonOption } from '../babylon/createBabylonScene.js'
+import { SHARED_CONTEXT_PIXI_OPTIONS } from '../pixi/createPixiApp.js'
+
+import { FrameRenderMode } from './FrameScheduler.js'
+import { FrameStatsOptions } from './FrameStats.js'
+import { GlStateDebuggerOptions } from './GlStateDebugger.js'
+import { SharedClockOptions } from './SharedClock.js'
+
+export interface PixiBabylonApplicationOptions {
+    /** Canvas element or CSS selector of the canvas shared by both renderers */
+    canvas?: HTMLCanvasElement | string
+    /** CSS width of the canvas, defaults to its computed style */
+    width?: number
+    /** CSS height of the canvas, defaults to its computed style */
+    height?: number
+    /** Clear color of the shared canvas, applied to the Babylon scene */
+    backgroundColor?: ColorSource
+    /** Whether to resize both renderers when the canvas or the device pixel ratio changes, defaults to true */
+    autoResize?: boolean
+    /** Element or window the canvas should fill, defaults to the canvas' own CSS size */
+    resizeTo?: HTMLElement | Window
+    /** Upper bound for the resolution derived from the device pixel ratio, defaults to 2 */
+    maxResolution?: number
+    /** Whether to route canvas input to either PIXI or Babylon instead of both, defaults to true */
+    inputRouting?: boolean
+    /** Maximum number of automatic PixiTexture updates per frame, defaults to no limit */
+    textureSyncBudget?: number
+    /** Maximum number of frames per second, defaults to no limit */
+    targetFps?: number
+    /** Whether to render continuously or only after `invalidate()`, defaults to `continuous` */
+    renderMode?: FrameRenderMode
+    /** Time scale and fixed step of the clock shared by both engines */
+    clock?: SharedClockOptions
+    /** Whether to check the shared GL state at every engine handoff, slow, defaults to false */
+    debug?: boolean | GlStateDebuggerOptions
+    /** Whether to measure each frame from the start, see `app.stats`, defaults to false */
+    stats?: boolean | FrameStatsOptions
+    /** Options forwarded to `createPixiApp` */
+    pixi?: Partial<ApplicationOptions>
+    /** Options forwarded to `createBabylonScene` */
+    babylon?: Partial<BabylonOption>
+}
+
+/**
+ * Resolves the canvas option into a canvas element
+ * A new canvas is created and appended to the document body when none is given
+ */
+export function resolveCanvas(canvas?: HTMLCanvasElement | string): HTMLCanvasElement {
+    if (!canvas) {
+        const element = document.createElement('canvas')
+        document.body.appendChild(element)
+        return element
+    }
+    if (typeof canvas !== 'string') {
+        return canvas
+    }
+    const element = document.querySelector(canvas)
+    if (!element) {
+        throw new Error(`canvas "${canvas}" not found!`)
+    }
+    if (!(element instanceof HTMLCanvasElement)) {
+        throw new Error(`"${canvas}" is not a canvas element!`)
+    }
+    return element
+}
+
+/**
+ * Checks that the PIXI and Babylon options agree on the attributes of the shared context
+ * Both renderers draw into one WebGL context, so these attributes can only be chosen once, and
+ * the PIXI options the integration depends on cannot be changed
+ */
+export function validateApplicationOptions(options: PixiBabylonApplicationOptions): void {
+    const { pixi = {}, babylon = {} } = options
+    const engineOption = babylon.engineOption ?? {}
+
+    if (pixi.canvas !== undefined || pixi.context !== undefined) {
+        throw new Error('pixi.canvas and pixi.context are shared with Babylon, use canvas instead!')
+    }
+    for (const [key, value] of Object.entries(SHARED_CONTEXT_PIXI_OPTIONS)) {
+        const option = pixi[key as keyof typeof SHARED_CONTEXT_PIXI_OPTIONS]
+        if (option !== undefined && option !== value) {
+            throw new Error(
+                `pixi.${key} (${option}) cannot change, the shared context needs ${value}!`
+            )
+        }
+    }
+
+    if (
+        babylon.antialias !== undefined &&
+        engineOption.antialias !== undefined &&
+        babylon.antialias !== engineOption.antialias
+    ) {
+        throw new Error('babylon.antialias conflicts with babylon.engineOption.antialias!')
+    }
+    const antialias = babylon.antialias ?? engineOption.antialias ?? false
+    if (pixi.antialias !== undefined && pixi.antialias !== antialias) {
+        throw new Error(
+            `pixi.antialias (${pixi.antialias}) conflicts with the shared context antialias (${antialias})!`
+        )
+    }
+
+    const preserveDrawingBuffer = engineOption.preserveDrawingBuffer ?? false
+    if (
+        pixi.preserveDrawingBuffer !== undefined &&
+        pixi.preserveDrawingBuffer !== preserveDrawingBuffer
+    ) {
+        throw new Error(
+            `pixi.preserveDrawingBuffer (${pixi.preserveDrawingBuffer}) conflicts with the shared context preserveDrawingBuffer (${preserveDrawingBuffer})!`
+        )
+    }
+}
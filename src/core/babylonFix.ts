@@ -1,15 +1,29 @@
+import { AbstractEngine } from '@babylonjs/core/Engines/abstractEngine'
 import { Engine } from '@babylonjs/core/Engines/engine'
 import { HDRFiltering } from '@babylonjs/core/Materials/Textures/Filtering/hdrFiltering'
-let fixed = false
+
+/** Engines sharing their context with PIXI */
+const fixedEngines = new WeakSet<AbstractEngine>()
+let patched = false
+
+/**
+ * Makes Babylon internals that assume they own the GL state safe for a shared context
+ * The prototype is patched once, each call only registers the engine, the patch resolves the
+ * engine of the filtering instance so every application gets its own caches wiped
+ */
 export function babylonFix(engine: Engine) {
-    if (fixed) {
+    fixedEngines.add(engine)
+    if (patched) {
         return
     }
-    fixed = true
+    patched = true
     const old = HDRFiltering.prototype['_prefilterInternal']
-    HDRFiltering.prototype['_prefilterInternal'] = function (...args: any[]) {
-        // reset gl state to avoid GL state pollution
-        engine.wipeCaches(true)
-        old.apply(this, args)
+    HDRFiltering.prototype['_prefilterInternal'] = function (this: HDRFiltering, ...args: any[]) {
+        const owner: AbstractEngine = this['_engine']
+        if (fixedEngines.has(owner)) {
+            // reset gl state to avoid GL state pollution
+            owner.wipeCaches(true)
+        }
+        return old.apply(this, args)
     }
 }
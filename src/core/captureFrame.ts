@@ -0,0 +1,145 @@
+import { RenderTargetTexture } from '@babylonjs/core/Materials/Textures/renderTargetTexture'
+import { Color4 } from '@babylonjs/core/Maths/math.color'
+import {
+    Color,
+    Container,
+    Graphics,
+    groupD8,
+    RenderTexture,
+    Sprite,
+    Texture,
+    TextureSource,
+} from 'pixi.js'
+
+import { shareBabylonTexture } from '../pixi/shareBabylonTexture.js'
+import { unbindPixiSamplers } from '../pixi/unbindPixiSamplers.js'
+
+import type { PixiBabylonApplication } from './PixiBabylonApp.js'
+import { imageDataToBlob, unpremultiplyPixels } from './imageData.js'
+
+export interface FrameCaptureOptions {
+    /** Resolution of the capture, defaults to the resolution of the canvas */
+    resolution?: number
+}
+
+export interface FrameImageOptions extends FrameCaptureOptions {
+    /** Mime type of the image, `image/png` or `image/webp`, defaults to `image/png` */
+    type?: string
+    /** Quality between 0 and 1 for lossy formats */
+    quality?: number
+}
+
+/**
+ * Renders the composited frame offscreen and reads its pixels
+ *
+ * The Babylon cameras render into a transparent render target, which is then composited with
+ * the PIXI layers into a PIXI render texture in the same order as on the canvas. The canvas is
+ * never touched, so this works without `preserveDrawingBuffer` and at any resolution.
+ * Layers of a rendering group are drawn over the whole scene instead of between the groups.
+ * Filters of the scene layer apply to the captured scene, its mask does not.
+ * Time does not advance, animations and textures are captured as they are.
+ *
+ * @param app - Application to capture
+ * @param options - Capture options
+ * @returns Straight alpha pixels, top row first
+ */
+export function captureFramePixels(
+    app: PixiBabylonApplication,
+    options: FrameCaptureOptions = {}
+): ImageData {
+    const { scene, engine, layers } = app
+    const { renderer } = app.pixiApp
+    const resolution = options.resolution ?? app.resolution
+    const { width, height } = renderer.screen
+    const pixelWidth = Math.ceil(width * resolution)
+    const pixelHeight = Math.ceil(height * resolution)
+
+    // Babylon renders the cameras into a transparent target, the clear color is painted by PIXI
+    const renderTarget = new RenderTargetTexture(
+        'frameCapture',
+        { width: pixelWidth, height: pixelHeight },
+        scene,
+        { generateMipMaps: false, generateStencilBuffer: true }
+    )
+    renderTarget.clearColor = new Color4(0, 0, 0, 0)
+    const cameras = scene.activeCameras?.length
+        ? scene.activeCameras
+        : scene.activeCamera
+          ? [scene.activeCamera]
+          : []
+    // cameras rendering into their own targets keep them, like in the scene layer
+    const redirected = cameras.filter(camera => !camera.outputRenderTarget)
+    redirected.forEach(camera => (camera.outputRenderTarget = renderTarget))
+    engine.wipeCaches(true)
+    try {
+        if (redirected.length) {
+            scene.render(false, true)
+        }
+    } finally {
+        redirected.forEach(camera => (camera.outputRenderTarget = null))
+        engine.wipeCaches(true)
+    }
+
+    // Share the target with PIXI, stored bottom-up like every Babylon render target
+    const source = new TextureSource({
+        width,
+        height,
+        resolution,
+        alphaMode: 'premultiplied-alpha',
+    })
+    shareBabylonTexture(source, renderTarget.getInternalTexture()!, renderer)
+    const sceneImage = new Sprite(new Texture({ source, rotate: groupD8.MIRROR_VERTICAL }))
+    sceneImage.setSize(width, height)
+    const { root } = app.sceneLayer
+    sceneImage.filters = root.filters ? [...root.filters] : null
+    sceneImage.alpha = root.alpha
+
+    const [r, g, b, a] = scene.clearColor.asArray()
+    const background = new Graphics().rect(0, 0, width, height).fill(new Color([r, g, b, a]))
+
+    const groupLayers = layers.sorted.filter(layer => layer.renderingGroupId !== undefined)
+    const containers: Container[] = [
+        background,
+        ...layers.underlays.map(layer => layer.root),
+        sceneImage,
+        ...groupLayers.map(layer => layer.root),
+        ...layers.overlays.map(layer => layer.root),
+    ]
+
+    const target = RenderTexture.create({ width, height, resolution })
+    try {
+        renderer.resetState()
+        containers.forEach((container, i) => {
+            renderer.render({ container, target, clear: i === 0 })
+        })
+        const output = renderer.extract.pixels(target)
+        const pixels = new Uint8ClampedArray(output.pixels.buffer as ArrayBuffer)
+        unpremultiplyPixels(pixels)
+        return new ImageData(pixels, output.width, output.height)
+    } finally {
+        const { gl } = app
+        gl.bindVertexArray(null)
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+        unbindPixiSamplers(renderer)
+        renderer.resetState()
+        engine.wipeCaches(true)
+        target.destroy(true)
+        sceneImage.destroy({ texture: true })
+        source.destroy()
+        background.destroy()
+        renderTarget.dispose()
+    }
+}
+
+/**
+ * Renders the composited frame offscreen and encodes it into an image file
+ *
+ * @param app - Application to capture
+ * @param options - Capture and encoding options
+ */
+export async function captureFrame(
+    app: PixiBabylonApplication,
+    options: FrameImageOptions = {}
+): Promise<Blob> {
+    return imageDataToBlob(captureFramePixels(app, options), options.type, options.quality)
+}
@@ -0,0 +1,93 @@
+/**
+ * Mirrors the rows of RGBA pixels in place, between WebGL's bottom-up and the top-down order
+ */
+export function flipPixelRows(
+    pixels: Uint8Array | Uint8ClampedArray,
+    width: number,
+    height: number
+) {
+    const rowSize = width * 4
+    const row = new Uint8Array(rowSize)
+    for (let top = 0, bottom = height - 1; top < bottom; top++, bottom--) {
+        const topOffset = top * rowSize
+        const bottomOffset = bottom * rowSize
+        row.set(pixels.subarray(topOffset, topOffset + rowSize))
+        pixels.copyWithin(topOffset, bottomOffset, bottomOffset + rowSize)
+        pixels.set(row, bottomOffset)
+    }
+}
+
+/**
+ * Converts premultiplied RGBA pixels to straight alpha in place, as expected by `ImageData`
+ */
+export function unpremultiplyPixels(pixels: Uint8Array | Uint8ClampedArray) {
+    for (let i = 0; i < pixels.length; i += 4) {
+        const alpha = pixels[i + 3]
+        if (alpha !== 0 && alpha !== 255) {
+            const scale = 255 / alpha
+            pixels[i] = Math.min(255, Math.round(pixels[i] * scale))
+            pixels[i + 1] = Math.min(255, Math.round(pixels[i + 1] * scale))
+            pixels[i + 2] = Math.min(255, Math.round(pixels[i + 2] * scale))
+        }
+    }
+}
+
+/**
+ * Scales pixels to another size with bilinear filtering
+ *
+ * @param imageData - Pixels to scale
+ * @param width - Width of the result in pixels
+ * @param height - Height of the result in pixels
+ */
+export function resizeImageData(imageData: ImageData, width: number, height: number): ImageData {
+    if (imageData.width === width && imageData.height === height) {
+        return imageData
+    }
+    const source = createCanvas(imageData.width, imageData.height)
+    source.getContext('2d')!.putImageData(imageData, 0, 0)
+    const target = createCanvas(width, height)
+    const context = target.getContext('2d')!
+    context.imageSmoothingQuality = 'high'
+    context.drawImage(source, 0, 0, width, height)
+    return context.getImageData(0, 0, width, height)
+}
+
+/**
+ * Encodes pixels into an image file
+ *
+ * @param imageData - Pixels to encode
+ * @param type - Mime type of the image, `image/png` or `image/webp`
+ * @param quality - Quality between 0 and 1 for lossy formats
+ */
+export async function imageDataToBlob(
+    imageData: ImageData,
+    type = 'image/png',
+    quality?: number
+): Promise<Blob> {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const canvas = new OffscreenCanvas(imageData.width, imageData.height)
+        canvas.getContext('2d')!.putImageData(imageData, 0, 0)
+        return canvas.convertToBlob({ type, quality })
+    }
+    const canvas = document.createElement('canvas')
+    canvas.width = imageData.width
+    canvas.height = imageData.height
+    canvas.getContext('2d')!.putImageData(imageData, 0, 0)
+    return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+            blob => (blob ? resolve(blob) : reject(new Error(`${type} encoding failed!`))),
+            type,
+            quality
+        )
+    })
+}
+
+function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(width, height)
+    }
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    return canvas
+}
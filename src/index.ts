@@ -9,15 +9,101 @@
  */
 
 import { PixiBabylonApplication } from './core/PixiBabylonApp.js'
+import { PixiBabylonApplicationOptions } from './core/applicationOptions.js'
 
 // Out-of-box methods - Easy to use, works immediately
 export { createPixiApp } from './pixi/createPixiApp.js'
 export { createBabylonScene } from './babylon/createBabylonScene.js'
 export { PixiBabylonApplication } from './core/PixiBabylonApp.js'
+export type { PixiBabylonApplicationOptions } from './core/applicationOptions.js'
+export { PixiLayer, PixiLayerManager } from './core/PixiLayer.js'
+export { SceneLayer } from './core/SceneLayer.js'
+export { DepthLayer, DepthObject } from './core/DepthLayer.js'
+export type { DepthObjectOptions } from './core/DepthLayer.js'
+export type { PixiLayerOptions } from './core/PixiLayer.js'
+export { InputRouter } from './core/InputRouter.js'
+export type { InputTarget } from './core/InputRouter.js'
+export type { ResizeInfo } from './core/CanvasResizer.js'
+export type { FrameCaptureOptions, FrameImageOptions } from './core/captureFrame.js'
+export {
+    flipPixelRows,
+    imageDataToBlob,
+    resizeImageData,
+    unpremultiplyPixels,
+} from './core/imageData.js'
+export { FRAME_PHASES, FrameScheduler } from './core/FrameScheduler.js'
+export { SharedClock } from './core/SharedClock.js'
+export { FrameStats } from './core/FrameStats.js'
+export type { FrameStatsOptions, FrameStatsSample } from './core/FrameStats.js'
+export { FrameStatsOverlay } from './core/FrameStatsOverlay.js'
+export type { FrameStatsOverlayOptions } from './core/FrameStatsOverlay.js'
+export { WorldAnchor, WorldAnchorManager } from './core/WorldAnchorManager.js'
+export { CameraViewport, CameraViewportManager } from './core/CameraViewportManager.js'
+export type { CameraViewportOptions } from './core/CameraViewportManager.js'
+export type { WorldAnchorOptions, WorldAnchorTarget } from './core/WorldAnchorManager.js'
+export type { SharedClockOptions } from './core/SharedClock.js'
+export type {
+    FrameHook,
+    FrameInfo,
+    FramePhase,
+    FrameRenderMode,
+    FrameSchedulerOptions,
+} from './core/FrameScheduler.js'
+export {
+    captureGlState,
+    GlStateDebugger,
+    HANDOFF_GL_STATE,
+    TRACKED_GL_STATE,
+} from './core/GlStateDebugger.js'
+export type {
+    GlState,
+    GlStateDebuggerOptions,
+    GlStateKey,
+    GlStateLeak,
+} from './core/GlStateDebugger.js'
+export type { BabylonOption } from './babylon/createBabylonScene.js'
 
 // Advanced integration features
 export { PixiTexture } from './integration/PixiTexture.js'
+export type {
+    DynamicTextureOptions,
+    PixiTextureAlphaMode,
+    PixiTextureUpdateMode,
+    SerializedPixiTexture,
+} from './integration/PixiTexture.js'
+export { exportWithPixiTextures } from './integration/exportPixiTextures.js'
+export type {
+    ExportablePixiTexture,
+    PixiTextureExportOptions,
+} from './integration/exportPixiTextures.js'
+export { PixiContainerRegistry } from './core/PixiContainerRegistry.js'
+export type { PixiContainerFactory } from './core/PixiContainerRegistry.js'
+export { PixiTextureAtlas, PixiTextureAtlasPage } from './integration/PixiTextureAtlas.js'
+export type { PixiTextureAtlasOptions } from './integration/PixiTextureAtlas.js'
+export { PixiTextureAtlasEntry } from './integration/PixiTextureAtlasEntry.js'
+export type { PixiTextureAtlasEntryOptions } from './integration/PixiTextureAtlasEntry.js'
+export { PixiCubeTexture } from './integration/PixiCubeTexture.js'
+export type { PixiCubeFaces } from './integration/PixiCubeTexture.js'
+export { PixiTextureArray } from './integration/PixiTextureArray.js'
+export { PixiLayeredContent } from './integration/PixiLayeredContent.js'
+export type {
+    LayerAttachment,
+    PixiLayeredTextureOptions,
+} from './integration/PixiLayeredContent.js'
+export { PixiAssetTexture } from './integration/PixiAssetTexture.js'
+export type { PixiAssetTextureOptions } from './integration/PixiAssetTexture.js'
+export { PixiTextureInteraction } from './integration/PixiTextureInteraction.js'
+export type { InteractiveTexture } from './integration/PixiTextureInteraction.js'
+export { ShelfPacker } from './core/ShelfPacker.js'
+export type { PackedRect } from './core/ShelfPacker.js'
+export { TextureSyncScheduler } from './core/TextureSyncScheduler.js'
+export type { SyncableTexture } from './core/TextureSyncScheduler.js'
 export { BabylonTextureFilter } from './integration/BabylonTextureFilter.js'
+export { PremultiplyAlphaFilter } from './integration/PremultiplyAlphaFilter.js'
+export { BabylonRenderTexture } from './integration/BabylonRenderTexture.js'
+export type { BabylonRenderTextureOptions } from './integration/BabylonRenderTexture.js'
+export { BabylonAssetTexture } from './integration/BabylonAssetTexture.js'
+export type { BabylonAssetTextureOptions } from './integration/BabylonAssetTexture.js'
 
 /**
  * Quick start function that creates a complete PIXI-Babylon application
@@ -28,9 +114,9 @@ export { BabylonTextureFilter } from './integration/BabylonTextureFilter.js'
  *
  * @example
  * ```typescript
- * import { quickStart } from 'pixi-babylon'
+ * import { createPixiBabylon } from 'pixi-babylon'
  *
- * const app = await quickStart({
+ * const app = await createPixiBabylon({
  *   canvas: '#game-canvas',
  *   width: 1024,
  *   height: 768
@@ -38,12 +124,14 @@ export { BabylonTextureFilter } from './integration/BabylonTextureFilter.js'
  *
  * // Add PIXI content
  * const sprite = new PIXI.Sprite(texture)
- * app.pixi.stage.addChild(sprite)
+ * app.pixiApp.stage.addChild(sprite)
  *
  * // Add Babylon content
- * const box = MeshBuilder.CreateBox('box', {size: 2}, app.babylonScene)
+ * const box = MeshBuilder.CreateBox('box', {size: 2}, app.scene)
  * ```
  */
-export async function createPixiBabylon(): Promise<PixiBabylonApplication> {
-    return PixiBabylonApplication.create()
+export async function createPixiBabylon(
+    config: PixiBabylonApplicationOptions = {}
+): Promise<PixiBabylonApplication> {
+    return PixiBabylonApplication.create(config)
 }
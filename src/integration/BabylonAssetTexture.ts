@@ -0,0 +1,161 @@
+import { BaseTexture } from '@babylonjs/core/Materials/Textures/baseTexture'
+import { Texture as BabylonTexture } from '@babylonjs/core/Materials/Textures/texture'
+import { Observer } from '@babylonjs/core/Misc/observable'
+import { groupD8, Rectangle, Texture, TextureSource } from 'pixi.js'
+
+import { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import { shareBabylonTexture } from '../pixi/shareBabylonTexture.js'
+
+import type { PixiTextureAlphaMode } from './PixiTexture.js'
+import { PremultipliedCopy } from './PremultipliedCopy.js'
+
+export interface BabylonAssetTextureOptions {
+    /** Region of the Babylon texture in pixels from its top left, defaults to the whole texture */
+    frame?: Rectangle
+    /** Name identifier for the PIXI texture, defaults to the name of the Babylon texture */
+    name?: string
+    /**
+     * How the Babylon texture stores alpha, `straight` premultiplies a copy for PIXI, defaults
+     * to `straight` as Babylon uploads images without premultiplying them
+     */
+    alphaMode?: PixiTextureAlphaMode
+}
+
+/**
+ * BabylonAssetTexture exposes a loaded Babylon texture as a PIXI texture
+ *
+ * - Coordinate System: textures loaded with `invertY` are stored bottom-up, so the PIXI texture
+ *   is mirrored vertically through its `rotate` UV transform, `frame` is always measured from
+ *   the top left of the image
+ * - Alpha Premultiplication: Babylon uploads straight colors while PIXI blends premultiplied
+ *   ones, so the frame is copied through a PremultiplyAlphaFilter into a PIXI render texture
+ *   whenever the Babylon texture loads. With `alphaMode: 'premultiplied'`, e.g. for textures
+ *   without transparency, PIXI samples the WebGL texture Babylon uploaded and no copy is made
+ *
+ * The UV transform of the Babylon texture (`uScale`, `vOffset`, ...) is ignored. The PIXI
+ * texture follows the Babylon texture when it loads another URL or the context is restored,
+ * and is destroyed with it.
+ *
+ * @example
+ * ```typescript
+ * const portrait = new Texture('hero.png', scene)
+ * await new Promise(resolve => portrait.onLoadObservable.addOnce(resolve))
+ *
+ * const avatar = new BabylonAssetTexture(portrait)
+ * app.pixiApp.stage.addChild(new Sprite(avatar.texture))
+ * ```
+ */
+export class BabylonAssetTexture {
+    /** PIXI source sharing the WebGL texture of the Babylon texture */
+    public readonly source: TextureSource
+
+    /** PIXI texture to use in sprites, masks and meshes */
+    public readonly texture: Texture
+
+    private readonly sharedTexture: Texture
+    private readonly premultipliedCopy?: PremultipliedCopy
+    private readonly observers: (Observer<BaseTexture> | Observer<BabylonTexture>)[] = []
+
+    /**
+     * Creates a new BabylonAssetTexture
+     *
+     * @param babylonTexture - Loaded Babylon texture to share
+     * @param options - Configuration options
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
+     */
+    constructor(
+        public readonly babylonTexture: BaseTexture,
+        private readonly options: BabylonAssetTextureOptions = {},
+        private pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
+    ) {
+        if (!pixiBabylonApplication) {
+            throw new Error('not context provide!')
+        }
+        const internalTexture = babylonTexture.getInternalTexture()
+        if (!internalTexture?.isReady) {
+            throw new Error('BabylonAssetTexture needs a loaded texture!')
+        }
+        const name = options.name ?? babylonTexture.name
+        const straight = (options.alphaMode ?? 'straight') === 'straight'
+        this.source = new TextureSource({
+            width: internalTexture.width,
+            height: internalTexture.height,
+            alphaMode: straight ? 'no-premultiply-alpha' : 'premultiplied-alpha',
+            label: name,
+        })
+        this.sharedTexture = new Texture({
+            source: this.source,
+            frame: options.frame?.clone(),
+            // rows of inverted textures are stored from the bottom of the image
+            rotate: internalTexture.invertY ? groupD8.MIRROR_VERTICAL : 0,
+            label: name,
+        })
+        this.texture = this.sharedTexture
+        if (straight) {
+            this.premultipliedCopy = new PremultipliedCopy(
+                this.sharedTexture,
+                pixiBabylonApplication
+            )
+            this.texture = this.premultipliedCopy.texture
+        }
+        this.shareGlTexture()
+
+        this.observers.push(babylonTexture.onDisposeObservable.add(() => this.dispose()))
+        if (babylonTexture instanceof BabylonTexture) {
+            // a new URL is loaded into another internal texture
+            this.observers.push(babylonTexture.onLoadObservable.add(() => this.shareGlTexture()))
+        }
+        pixiBabylonApplication.assetTextures.add(this)
+    }
+
+    /**
+     * Points the PIXI source at the WebGL texture again after the context was restored
+     * Babylon reloads the texture on restore, PIXI is pointed at it once it is loaded
+     */
+    restore(): void {
+        const internalTexture = this.babylonTexture.getInternalTexture()
+        if (internalTexture && !internalTexture.isReady) {
+            internalTexture.onLoadedObservable.addOnce(() => this.shareGlTexture())
+            return
+        }
+        this.shareGlTexture()
+    }
+
+    /**
+     * Releases the PIXI texture, the Babylon texture is left untouched
+     */
+    dispose(): void {
+        if (!this.pixiBabylonApplication.assetTextures.delete(this)) {
+            return
+        }
+        this.observers.forEach(observer => observer.remove())
+        this.observers.length = 0
+        this.premultipliedCopy?.destroy()
+        this.sharedTexture.destroy()
+        this.source.destroy()
+    }
+
+    /**
+     * Shares the WebGL texture of the Babylon texture and fits the PIXI texture to it
+     */
+    private shareGlTexture(): void {
+        const internalTexture = this.babylonTexture.getInternalTexture()
+        if (!internalTexture?._hardwareTexture) {
+            return
+        }
+        const { source, sharedTexture: texture } = this
+        const { width, height } = internalTexture
+        source.resize(width, height)
+        shareBabylonTexture(source, internalTexture, this.pixiBabylonApplication.pixiApp.renderer)
+
+        // the frame of a mirrored texture is measured from the bottom row
+        const frame = this.options.frame ?? new Rectangle(0, 0, width, height)
+        texture.frame.copyFrom(frame)
+        if (texture.rotate) {
+            texture.frame.y = height - frame.y - frame.height
+        }
+        texture.update()
+        this.premultipliedCopy?.update()
+        this.pixiBabylonApplication.scheduler.invalidate()
+    }
+}
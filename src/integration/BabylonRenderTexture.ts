@@ -0,0 +1,216 @@
+import { Camera } from '@babylonjs/core/Cameras/camera'
+import { RenderTargetTexture } from '@babylonjs/core/Materials/Textures/renderTargetTexture'
+import { Color4 } from '@babylonjs/core/Maths/math.color'
+import { ISize } from '@babylonjs/core/Maths/math.size'
+import { Observer } from '@babylonjs/core/Misc/observable'
+import { groupD8, Texture, TextureSource } from 'pixi.js'
+
+import { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import { shareBabylonTexture } from '../pixi/shareBabylonTexture.js'
+
+import type { PixiTextureAlphaMode } from './PixiTexture.js'
+import { PremultipliedCopy } from './PremultipliedCopy.js'
+
+export interface BabylonRenderTextureOptions {
+    /** Camera rendered into the texture, defaults to the active camera of the scene */
+    camera?: Camera
+    /** Existing render target to expose instead of creating one, its size wins over `size` */
+    renderTarget?: RenderTargetTexture
+    /** Whether to render every frame, otherwise the target is rendered once per `update()` */
+    autoUpdate?: boolean
+    /** Name identifier for the render target */
+    name?: string
+    /** Resolution multiplier for the render target */
+    resolution?: number
+    /**
+     * How the scene writes alpha into the target, `straight` premultiplies a copy for PIXI,
+     * defaults to `premultiplied`
+     */
+    alphaMode?: PixiTextureAlphaMode
+}
+
+/**
+ * BabylonRenderTexture exposes a Babylon render target as a PIXI texture
+ *
+ * The PIXI texture samples the WebGL texture Babylon renders into, no copy is made by default.
+ * The two engines disagree on conventions the same way as for PixiTexture, in reverse:
+ * - Coordinate System: the render target is stored bottom-up, so the PIXI texture is
+ *   mirrored vertically through its `rotate` UV transform
+ * - Alpha Premultiplication: Babylon's alpha blending into the transparent cleared target
+ *   produces premultiplied colors, which is what PIXI expects from its textures. Scenes that
+ *   write straight alpha, e.g. a translucent `clearColor` or materials writing their alpha
+ *   as is, need `alphaMode: 'straight'`: the target is then copied through a
+ *   PremultiplyAlphaFilter after each render and PIXI samples the copy
+ *
+ * A created render target draws the active meshes of the scene until `renderList` is set.
+ *
+ * @example
+ * ```typescript
+ * const portrait = new BabylonRenderTexture({ width: 256, height: 256 }, {
+ *   camera: portraitCamera,
+ * })
+ * portrait.renderTarget.renderList = [character]
+ *
+ * const sprite = new Sprite(portrait.texture)
+ * app.pixiApp.stage.addChild(sprite)
+ * ```
+ */
+export class BabylonRenderTexture {
+    /** Configuration options for the render texture */
+    public readonly options: Required<Omit<BabylonRenderTextureOptions, 'camera' | 'renderTarget'>>
+
+    /** The Babylon render target the scene is rendered into */
+    public readonly renderTarget: RenderTargetTexture
+
+    /** PIXI source sharing the WebGL texture of the render target */
+    public readonly source: TextureSource
+
+    /** PIXI texture to use in sprites, masks and meshes */
+    public readonly texture: Texture
+
+    private readonly ownsRenderTarget: boolean
+    private readonly sharedTexture: Texture
+    private readonly premultipliedCopy?: PremultipliedCopy
+    private copyObserver: Observer<number> | null = null
+
+    /**
+     * Creates a new BabylonRenderTexture
+     *
+     * @param size - Size of the texture in PIXI units
+     * @param options - Configuration options
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
+     */
+    constructor(
+        size: ISize,
+        options: BabylonRenderTextureOptions = {},
+        private pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
+    ) {
+        if (!pixiBabylonApplication) {
+            throw new Error('not context provide!')
+        }
+        const { scene } = pixiBabylonApplication
+        this.options = {
+            autoUpdate: true,
+            name: '',
+            resolution: 1,
+            alphaMode: 'premultiplied',
+            ...options,
+        }
+        const { resolution } = this.options
+
+        this.ownsRenderTarget = !options.renderTarget
+        this.renderTarget =
+            options.renderTarget ??
+            new RenderTargetTexture(
+                this.options.name,
+                {
+                    width: Math.ceil(size.width * resolution),
+                    height: Math.ceil(size.height * resolution),
+                },
+                scene,
+                { generateMipMaps: false }
+            )
+        const { renderTarget } = this
+        if (this.ownsRenderTarget) {
+            // without a list the active meshes of the scene are rendered, set `renderList` to
+            // pick meshes, a predicate would rebuild the list on every render
+            renderTarget.renderList = null
+            // a transparent clear keeps the blended output premultiplied
+            renderTarget.clearColor = new Color4(0, 0, 0, 0)
+            renderTarget.activeCamera = options.camera ?? null
+            scene.customRenderTargets.push(renderTarget)
+        }
+        if (!this.options.autoUpdate) {
+            renderTarget.refreshRate = RenderTargetTexture.REFRESHRATE_RENDER_ONCE
+        }
+
+        // Share the WebGL texture of the render target with PIXI
+        const { width, height } = renderTarget.getSize()
+        this.source = new TextureSource({
+            width: width / resolution,
+            height: height / resolution,
+            resolution,
+            alphaMode:
+                this.options.alphaMode === 'straight'
+                    ? 'no-premultiply-alpha'
+                    : 'premultiplied-alpha',
+            label: this.options.name,
+        })
+        this.shareGlTexture()
+
+        this.sharedTexture = new Texture({
+            source: this.source,
+            rotate: groupD8.MIRROR_VERTICAL,
+            label: this.options.name,
+        })
+        this.texture = this.sharedTexture
+        if (this.options.alphaMode === 'straight') {
+            const copy = new PremultipliedCopy(this.sharedTexture, pixiBabylonApplication)
+            this.premultipliedCopy = copy
+            this.texture = copy.texture
+            this.copyObserver = renderTarget.onAfterRenderObservable.add(() => copy.update())
+        }
+        pixiBabylonApplication.babylonRenderTextures.add(this)
+    }
+
+    /**
+     * Points the PIXI source at the WebGL texture again after the context was restored
+     * Babylon recreates the render target on restore, PIXI still holds the lost one
+     */
+    restore(): void {
+        this.shareGlTexture()
+        this.update()
+    }
+
+    /**
+     * Renders the target again on the next frame
+     * Only needed when autoUpdate is disabled
+     */
+    update(): void {
+        this.renderTarget.resetRefreshCounter()
+        this.pixiBabylonApplication.scheduler.invalidate()
+    }
+
+    /**
+     * Asynchronously render the texture content
+     *
+     * @returns Promise that resolves once the render target has been rendered
+     */
+    async render(): Promise<void> {
+        return new Promise<void>(resolve => {
+            this.renderTarget.onAfterRenderObservable.addOnce(() => resolve())
+            this.update()
+        })
+    }
+
+    /**
+     * Releases the PIXI texture, and the render target if it was created here
+     */
+    dispose(): void {
+        this.pixiBabylonApplication.babylonRenderTextures.delete(this)
+        this.copyObserver?.remove()
+        this.copyObserver = null
+        this.premultipliedCopy?.destroy()
+        this.sharedTexture.destroy()
+        this.source.destroy()
+        if (this.ownsRenderTarget) {
+            const { customRenderTargets } = this.pixiBabylonApplication.scene
+            const index = customRenderTargets.indexOf(this.renderTarget)
+            if (index >= 0) {
+                customRenderTargets.splice(index, 1)
+            }
+            this.renderTarget.dispose()
+        }
+    }
+
+    /**
+     * Shares the WebGL texture of the render target with the PIXI source
+     */
+    private shareGlTexture(): void {
+        shareBabylonTexture(
+            this.source,
+            this.renderTarget.getInternalTexture()!,
+            this.pixiBabylonApplication.pixiApp.renderer
+        )
+    }
+}
@@ -0,0 +1,260 @@
+import { Constants } from '@babylonjs/core/Engines/constants'
+import { Engine } from '@babylonjs/core/Engines/engine'
+import { Texture as BabylonTexture } from '@babylonjs/core/Materials/Textures/texture'
+import { Observer } from '@babylonjs/core/Misc/observable'
+import { GlTextureSystem, Texture, TextureSource, WRAP_MODE } from 'pixi.js'
+
+import { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+
+export interface PixiAssetTextureOptions {
+    /** Name of the Babylon texture, defaults to the label of the PIXI texture */
+    name?: string
+    /** Anisotropic filtering level */
+    anisotropicFilteringLevel?: number
+}
+
+const ADDRESS_MODES: Record<WRAP_MODE, number> = {
+    'clamp-to-edge': Constants.TEXTURE_CLAMP_ADDRESSMODE,
+    'repeat': Constants.TEXTURE_WRAP_ADDRESSMODE,
+    'mirror-repeat': Constants.TEXTURE_MIRROR_ADDRESSMODE,
+}
+
+/** Sources wrapped for Babylon, with their garbage collection flag before the first wrap */
+const wrappedSources = new WeakMap<TextureSource, { count: number; autoGarbageCollect: boolean }>()
+
+/**
+ * PixiAssetTexture exposes a PIXI texture as a Babylon texture, without rendering or copying it
+ *
+ * Materials sample the WebGL texture PIXI uploaded, e.g. for an image loaded with `Assets`.
+ * Unlike a PixiTexture there is no correction pass, so:
+ * - Coordinate System: PIXI stores the top row first, the UV transform flips v so the frame
+ *   appears upright like in a PixiTexture
+ * - Frames: the frame of a spritesheet texture is selected through the UV transform, trimmed
+ *   and rotated frames are not supported, their margins would sample the neighbouring frames
+ * - Alpha Premultiplication: PIXI premultiplies images on upload, check `premultiplied` and
+ *   blend with `Constants.ALPHA_PREMULTIPLIED_PORTERDUFF` when it is set
+ *
+ * The sampling and wrapping follow the style of the PIXI source, both engines set them on the
+ * same WebGL texture. The source is kept out of PIXI's garbage collection while wrapped, and the
+ * texture is disposed with the PIXI texture or source it wraps.
+ *
+ * @example
+ * ```typescript
+ * const sheet = await Assets.load('ui.json')
+ * const icon = new PixiAssetTexture(sheet.textures['icon.png'])
+ *
+ * material.diffuseTexture = icon
+ * material.diffuseTexture.hasAlpha = true
+ * ```
+ */
+export class PixiAssetTexture extends BabylonTexture {
+    /** The wrapped PIXI texture, a full frame texture when a source was given */
+    public readonly texture: Texture
+
+    /** The PIXI source owning the WebGL texture */
+    public readonly source: TextureSource
+
+    private readonly ownsTexture: boolean
+    private stale = false
+    private observer: Observer<void> | null = null
+
+    /**
+     * Creates a new PixiAssetTexture
+     *
+     * @param texture - PIXI texture or source to share
+     * @param options - Configuration options
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
+     */
+    constructor(
+        texture: Texture | TextureSource,
+        options: PixiAssetTextureOptions = {},
+        private pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
+    ) {
+        if (!pixiBabylonApplication) {
+            throw new Error('not context provide!')
+        }
+        const pixiTexture = texture instanceof Texture ? texture : new Texture({ source: texture })
+        if (pixiTexture.destroyed || pixiTexture.source.destroyed) {
+            throw new Error('PixiAssetTexture cannot share a destroyed texture!')
+        }
+        PixiAssetTexture.assertPlainFrame(pixiTexture)
+        super(null, pixiBabylonApplication.scene, { noMipmap: true, invertY: false })
+        this.texture = pixiTexture
+        this.ownsTexture = pixiTexture !== texture
+        this.source = pixiTexture.source
+        this.name = options.name ?? pixiTexture.label ?? ''
+        this.anisotropicFilteringLevel = options.anisotropicFilteringLevel ?? 4
+        this.hasAlpha = true
+
+        const shared = wrappedSources.get(this.source) ?? {
+            count: 0,
+            autoGarbageCollect: this.source.autoGarbageCollect,
+        }
+        shared.count++
+        wrappedSources.set(this.source, shared)
+        // PIXI never draws with the source, its GC would unload it under Babylon
+        this.source.autoGarbageCollect = false
+
+        this.wrapGlTexture()
+        this.updateFrame()
+
+        this.source.on('resize', this.onSourceResize, this)
+        this.source.on('styleChange', this.applyStyle, this)
+        this.source.on('unload', this.onSourceUnload, this)
+        this.source.on('destroy', this.dispose, this)
+        this.texture.on('update', this.updateFrame, this)
+        this.texture.on('destroy', this.dispose, this)
+        this.observer = pixiBabylonApplication.beforeRenderObservable.add(() => {
+            if (this.stale) {
+                this.wrapGlTexture()
+            }
+        })
+        pixiBabylonApplication.assetTextures.add(this)
+    }
+
+    /** Whether the colors are premultiplied by alpha in the WebGL texture */
+    get premultiplied(): boolean {
+        return this.source.alphaMode !== 'no-premultiply-alpha'
+    }
+
+    /**
+     * Wraps the WebGL texture again after the context was restored
+     * PIXI uploads the source again on restore, the wrapped texture was lost
+     */
+    restore(): void {
+        this.wrapGlTexture()
+    }
+
+    /**
+     * Moves the UV transform to the frame of the PIXI texture
+     * Called when the texture is updated, call it after changing the frame without `update()`
+     */
+    updateFrame(): void {
+        PixiAssetTexture.assertPlainFrame(this.texture)
+        const { frame } = this.texture
+        const { width, height } = this.source
+        this.uScale = frame.width / width
+        this.uOffset = frame.x / width
+        // v = 1 is the top of the frame, the first row PIXI uploaded
+        this.vScale = -frame.height / height
+        this.vOffset = (frame.y + frame.height) / height
+    }
+
+    /**
+     * Releases the wrapper, the PIXI texture and its WebGL texture are left to PIXI
+     */
+    dispose(): void {
+        const { pixiBabylonApplication, source, texture } = this
+        if (!pixiBabylonApplication.assetTextures.delete(this)) {
+            return
+        }
+        this.observer?.remove()
+        this.observer = null
+        source.off('resize', this.onSourceResize, this)
+        source.off('styleChange', this.applyStyle, this)
+        source.off('unload', this.onSourceUnload, this)
+        source.off('destroy', this.dispose, this)
+        texture.off('update', this.updateFrame, this)
+        texture.off('destroy', this.dispose, this)
+
+        const shared = wrappedSources.get(source)
+        if (shared && --shared.count === 0) {
+            source.autoGarbageCollect = shared.autoGarbageCollect
+            wrappedSources.delete(source)
+        }
+        if (this.ownsTexture) {
+            texture.destroy()
+        }
+        this.releaseGlTexture()
+        super.dispose()
+    }
+
+    /**
+     * Throws for frames the UV transform cannot map without sampling outside the frame
+     */
+    private static assertPlainFrame(texture: Texture): void {
+        if (texture.rotate) {
+            throw new Error('PixiAssetTexture does not support rotated frames!')
+        }
+        if (texture.trim) {
+            throw new Error('PixiAssetTexture does not support trimmed frames!')
+        }
+    }
+
+    /**
+     * Wraps the WebGL texture of the PIXI source for Babylon, uploading the source if needed
+     */
+    private wrapGlTexture(): void {
+        const { renderer } = this.pixiBabylonApplication.pixiApp
+        const { source } = this
+        const glSource = (renderer.texture as GlTextureSystem).getGlSource(source)
+        this.releaseGlTexture()
+        const engine = this.getScene()!.getEngine() as Engine
+        this['_texture'] = engine.wrapWebGLTexture(
+            glSource.texture,
+            source.mipLevelCount > 1,
+            this.getSamplingMode(),
+            source.pixelWidth,
+            source.pixelHeight
+        )
+        this['_texture'].type = Constants.TEXTURETYPE_UNSIGNED_BYTE
+        this.applyStyle()
+        this.stale = false
+    }
+
+    /**
+     * Drops Babylon's handle on the WebGL texture without deleting it
+     */
+    private releaseGlTexture(): void {
+        const internalTexture = this['_texture']
+        if (!internalTexture) {
+            return
+        }
+        // the last reference would delete the WebGL texture PIXI owns
+        if (internalTexture._references <= 1) {
+            internalTexture._hardwareTexture = null
+        }
+        internalTexture.dispose()
+        this['_texture'] = null
+    }
+
+    /**
+     * Matches the sampling and wrapping of the PIXI source
+     */
+    private applyStyle(): void {
+        const { style } = this.source
+        this.wrapU = ADDRESS_MODES[style.addressModeU ?? 'clamp-to-edge']
+        this.wrapV = ADDRESS_MODES[style.addressModeV ?? 'clamp-to-edge']
+        if (this['_texture']) {
+            this.updateSamplingMode(this.getSamplingMode())
+        }
+    }
+
+    private getSamplingMode(): number {
+        const { source } = this
+        if (source.style.scaleMode === 'nearest') {
+            return Constants.TEXTURE_NEAREST_SAMPLINGMODE
+        }
+        return source.mipLevelCount > 1
+            ? Constants.TEXTURE_TRILINEAR_SAMPLINGMODE
+            : Constants.TEXTURE_BILINEAR_SAMPLINGMODE
+    }
+
+    private onSourceResize(): void {
+        const internalTexture = this['_texture']
+        if (internalTexture) {
+            // PIXI reallocates the same WebGL texture
+            internalTexture.width = internalTexture.baseWidth = this.source.pixelWidth
+            internalTexture.height = internalTexture.baseHeight = this.source.pixelHeight
+        }
+        this.updateFrame()
+    }
+
+    /**
+     * PIXI deleted the WebGL texture, it is uploaded and wrapped again before the next render
+     */
+    private onSourceUnload(): void {
+        this.stale = true
+        this.pixiBabylonApplication.scheduler.invalidate()
+    }
+}
@@ -0,0 +1,163 @@
+import { Constants } from '@babylonjs/core/Engines/constants'
+import { RawCubeTexture } from '@babylonjs/core/Materials/Textures/rawCubeTexture'
+import { Container } from 'pixi.js'
+
+import { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import { SyncableTexture } from '../core/TextureSyncScheduler.js'
+
+import {
+    LayerAttachment,
+    PixiLayeredContent,
+    PixiLayeredTextureOptions,
+} from './PixiLayeredContent.js'
+
+/**
+ * One container per cube face, in the order of Babylon's cube textures: +X, +Y, +Z, -X, -Y, -Z
+ */
+export type PixiCubeFaces<T extends Container = Container> = [T, T, T, T, T, T]
+
+/** Offsets of the faces from `TEXTURE_CUBE_MAP_POSITIVE_X`, GL orders them +X, -X, +Y, ... */
+const FACE_TARGET_OFFSETS = [0, 2, 4, 1, 3, 5]
+
+/**
+ * Cube texture rendering one PIXI container per face
+ *
+ * Use it for skyboxes, reflection probes and stylized environment maps drawn with PIXI. Each face
+ * is square, `size` pixels wide at resolution 1, and goes through the same correction as a
+ * PixiTexture. Faces are stored top row first like images loaded by `CubeTexture`, so the
+ * content of each face appears upright when seen from inside the cube.
+ * The update modes work per face, `onChange` only re-renders the faces whose containers changed.
+ *
+ * @example
+ * ```typescript
+ * const sky = new PixiCubeTexture([px, py, pz, nx, ny, nz], 512, { updateMode: 'onChange' })
+ * skyboxMaterial.reflectionTexture = sky
+ * skyboxMaterial.reflectionTexture.coordinatesMode = Texture.SKYBOX_MODE
+ * ```
+ */
+export class PixiCubeTexture<T extends Container = Container>
+    extends RawCubeTexture
+    implements SyncableTexture
+{
+    /** Renders the faces, holds the options and the root containers */
+    public readonly content: PixiLayeredContent
+
+    private readonly attachFace: LayerAttachment = (gl, index) => {
+        const texture = this['_texture']!._hardwareTexture!.underlyingResource as WebGLTexture
+        gl.framebufferTexture2D(
+            gl.DRAW_FRAMEBUFFER,
+            gl.COLOR_ATTACHMENT0,
+            gl.TEXTURE_CUBE_MAP_POSITIVE_X + FACE_TARGET_OFFSETS[index],
+            texture,
+            0
+        )
+    }
+
+    /**
+     * @param faces - The containers of the faces, +X, +Y, +Z, -X, -Y, -Z
+     * @param size - Width and height of each face
+     * @param options - Configuration options
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
+     */
+    constructor(
+        public readonly faces: PixiCubeFaces<T>,
+        size: number,
+        options: Partial<PixiLayeredTextureOptions> = {},
+        private pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
+    ) {
+        if (!pixiBabylonApplication) {
+            throw new Error('not context provide!')
+        }
+        if (faces.length !== 6) {
+            throw new Error('PixiCubeTexture needs one container per face!')
+        }
+        const content = new PixiLayeredContent(
+            faces,
+            { width: size, height: size },
+            options,
+            pixiBabylonApplication
+        )
+        const { generateMipMaps, samplingMode } = content.options
+        super(
+            pixiBabylonApplication.scene,
+            null,
+            content.renderSize.width,
+            Constants.TEXTUREFORMAT_RGBA,
+            Constants.TEXTURETYPE_UNSIGNED_BYTE,
+            generateMipMaps,
+            false, // invertY
+            samplingMode
+        )
+        this.content = content
+        this.name = content.options.name
+        this.anisotropicFilteringLevel = content.options.anisotropicFilteringLevel
+        this.hasAlpha = true
+        pixiBabylonApplication.layeredTextures.add(this)
+        content.schedule(this)
+    }
+
+    /** Time of the last sync, in milliseconds */
+    get lastSyncTime(): number {
+        return this.content.lastSyncTime
+    }
+
+    /** Width and height of each face in pixels */
+    get faceSize(): number {
+        return this.content.renderSize.width
+    }
+
+    /**
+     * Renders the faces into the cube texture
+     * In `onChange` mode only the faces whose containers changed are rendered
+     *
+     * @param all - Whether to render every face regardless of the update mode
+     */
+    sync(all = false): void {
+        // PIXI stores the first row on top, cube faces are sampled top row first too
+        this.content.sync(this['_texture']!, this.attachFace, true, all)
+    }
+
+    needsSync(now: number): boolean {
+        return this.content.needsSync(now)
+    }
+
+    /**
+     * Resizes the faces, recreating the cube texture
+     * Materials using the texture stay bound, the content is synced right away
+     *
+     * @param size - New width and height of each face
+     * @param resolution - New resolution multiplier, defaults to the current one
+     */
+    resize(size: number, resolution: number = this.content.options.resolution): void {
+        const { content } = this
+        content.resize({ width: size, height: size }, resolution)
+        const { generateMipMaps, samplingMode } = content.options
+        this['_texture']?.dispose()
+        this['_texture'] = this.getScene()!.getEngine().createRawCubeTexture(
+            null,
+            content.renderSize.width,
+            Constants.TEXTUREFORMAT_RGBA,
+            Constants.TEXTURETYPE_UNSIGNED_BYTE,
+            generateMipMaps,
+            false, // invertY
+            samplingMode,
+            null // compression
+        )
+        this.sync(true)
+    }
+
+    /**
+     * Re-renders the faces after the context was restored
+     * Babylon reallocates the cube texture itself, its content is lost
+     */
+    restore(): void {
+        this.content.restore()
+        this.sync(true)
+    }
+
+    dispose(): void {
+        super.dispose()
+        this.content.dispose(this)
+        this.pixiBabylonApplication.layeredTextures.delete(this)
+    }
+}
@@ -0,0 +1,257 @@
+import { BaseTexture } from '@babylonjs/core/Materials/Textures/baseTexture'
+import { InternalTexture } from '@babylonjs/core/Materials/Textures/internalTexture'
+import { Texture } from '@babylonjs/core/Materials/Textures/texture'
+import { ISize } from '@babylonjs/core/Maths'
+import { Observer } from '@babylonjs/core/Misc/observable'
+import { Container, GlTextureSystem, Matrix, Rectangle, RenderTexture } from 'pixi.js'
+
+import type { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import type { SyncableTexture } from '../core/TextureSyncScheduler.js'
+import { getContainerChangeId } from '../pixi/getContainerChangeId.js'
+import { unbindPixiSamplers } from '../pixi/unbindPixiSamplers.js'
+
+import { BabylonTextureFilter } from './BabylonTextureFilter.js'
+import type { DynamicTextureOptions } from './PixiTexture.js'
+
+export type PixiLayeredTextureOptions = Pick<
+    DynamicTextureOptions,
+    | 'autoUpdate'
+    | 'updateMode'
+    | 'maxFps'
+    | 'name'
+    | 'resolution'
+    | 'generateMipMaps'
+    | 'samplingMode'
+    | 'anisotropicFilteringLevel'
+    | 'alphaMode'
+>
+
+/**
+ * Attaches one face or layer of the target texture to the bound draw framebuffer
+ */
+export type LayerAttachment = (gl: WebGL2RenderingContext, index: number) => void
+
+/**
+ * Renders one container per face or layer of a cube or 2D-array texture
+ *
+ * Each container is rendered through the same correction as a PixiTexture into a scratch
+ * render texture, which is then blitted into its face or layer. Only the scratch texture is
+ * owned by PIXI, the target is a Babylon texture. Shared by PixiCubeTexture and PixiTextureArray.
+ */
+export class PixiLayeredContent {
+    /** Configuration options of the texture */
+    public readonly options: Required<PixiLayeredTextureOptions>
+
+    /** Root containers wrapping the user's containers with the correction, one per layer */
+    public readonly roots: Container[]
+
+    /** Size of a layer in pixels (width/height * resolution) */
+    public renderSize!: { width: number; height: number }
+
+    /** Scratch texture each layer is rendered into before the blit */
+    public scratch!: RenderTexture
+
+    /** Time of the last sync, in milliseconds */
+    public lastSyncTime = -Infinity
+
+    private readonly filter = new BabylonTextureFilter()
+    /** Flips Y while rendering in premultiplied mode, where no filter does it */
+    private flipTransform?: Matrix
+    private readonly lastChangeIds: (number | undefined)[]
+    private readFramebuffer: WebGLFramebuffer | null = null
+    private drawFramebuffer: WebGLFramebuffer | null = null
+    private observer?: Observer<void>
+
+    constructor(
+        public readonly containers: Container[],
+        public size: ISize,
+        options: Partial<PixiLayeredTextureOptions>,
+        private readonly app: PixiBabylonApplication
+    ) {
+        const defaultOptions: Required<PixiLayeredTextureOptions> = {
+            autoUpdate: false,
+            updateMode: options.autoUpdate ? 'always' : 'manual',
+            maxFps: Infinity,
+            name: '',
+            resolution: app.pixiApp.renderer.resolution ?? 1,
+            generateMipMaps: false,
+            samplingMode: options.generateMipMaps
+                ? Texture.TRILINEAR_SAMPLINGMODE
+                : Texture.BILINEAR_SAMPLINGMODE,
+            anisotropicFilteringLevel: BaseTexture.DEFAULT_ANISOTROPIC_FILTERING_LEVEL,
+            alphaMode: 'straight',
+        }
+        this.options = { ...defaultOptions, ...options }
+        this.filter.resolution = 'inherit'
+        this.roots = containers.map(container => {
+            const root = new Container()
+            if (this.options.alphaMode === 'straight') {
+                root.filters = [this.filter]
+            }
+            root.addChild(container)
+            return root
+        })
+        this.lastChangeIds = containers.map(() => undefined)
+        this.resize(size)
+    }
+
+    /**
+     * Size of a layer in pixels
+     */
+    static measureRenderSize(size: ISize, resolution: number): { width: number; height: number } {
+        return {
+            width: Math.ceil(Math.ceil(size.width) * resolution),
+            height: Math.ceil(Math.ceil(size.height) * resolution),
+        }
+    }
+
+    /**
+     * Recreates the scratch texture for a new size
+     * The target texture has to be recreated by the caller
+     */
+    resize(size: ISize, resolution: number = this.options.resolution): void {
+        const normalizedSize = { width: Math.ceil(size.width), height: Math.ceil(size.height) }
+        this.size = size
+        this.options.resolution = resolution
+        this.renderSize = PixiLayeredContent.measureRenderSize(size, resolution)
+        if (this.options.alphaMode === 'straight') {
+            const filterArea = new Rectangle(0, 0, normalizedSize.width, normalizedSize.height)
+            this.roots.forEach(root => (root.filterArea = filterArea))
+        } else {
+            this.flipTransform = new Matrix(1, 0, 0, -1, 0, normalizedSize.height)
+        }
+        this.scratch?.destroy(true)
+        this.scratch = RenderTexture.create({ ...normalizedSize, resolution })
+    }
+
+    /**
+     * Whether any layer should be synced automatically at the given time
+     */
+    needsSync(now: number): boolean {
+        const { updateMode, maxFps } = this.options
+        if (updateMode === 'manual' || now - this.lastSyncTime < 1000 / maxFps) {
+            return false
+        }
+        return updateMode === 'always' || this.changedLayers().length > 0
+    }
+
+    /**
+     * Renders the layers into the target texture
+     * In `onChange` mode only the layers whose containers changed are rendered
+     *
+     * @param target - Babylon texture holding the layers
+     * @param attach - Attaches a layer of the target to the draw framebuffer
+     * @param flipRows - Whether the rows of the scratch texture are flipped by the blit
+     * @param all - Whether to render every layer regardless of the update mode
+     */
+    sync(target: InternalTexture, attach: LayerAttachment, flipRows: boolean, all = false): void {
+        const { gl } = this.app
+        const start = performance.now()
+        const layers =
+            all || this.options.updateMode !== 'onChange'
+                ? this.roots.map((_, index) => index)
+                : this.changedLayers()
+        layers.forEach(index => this.renderLayer(index, attach, flipRows))
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+        this.app.glStateDebugger?.check('texture-sync')
+
+        if (this.options.generateMipMaps && layers.length) {
+            this.app.scene.getEngine().generateMipmaps(target)
+        }
+        this.lastSyncTime = performance.now()
+        this.app.stats.recordTextureSync(this.lastSyncTime - start)
+    }
+
+    /**
+     * Registers the texture for automatic updates, or renders it once on the next frame in
+     * `manual` mode
+     */
+    schedule(texture: SyncableTexture): void {
+        if (this.options.updateMode !== 'manual') {
+            this.app.textureSync.add(texture)
+        } else {
+            this.observer = this.app.beforeRenderObservable.addOnce(() => texture.sync())
+            this.app.scheduler.invalidate()
+        }
+    }
+
+    /**
+     * Drops the framebuffers of the lost context and re-renders every layer on the next sync
+     */
+    restore(): void {
+        this.readFramebuffer = null
+        this.drawFramebuffer = null
+        this.lastChangeIds.fill(undefined)
+    }
+
+    dispose(texture: SyncableTexture): void {
+        const { gl } = this.app
+        this.observer?.remove()
+        this.app.textureSync.remove(texture)
+        gl.deleteFramebuffer(this.readFramebuffer)
+        gl.deleteFramebuffer(this.drawFramebuffer)
+        this.scratch.destroy(true)
+        this.roots.forEach(root => root.destroy({ children: false })) // Don't destroy user's containers
+    }
+
+    private changedLayers(): number[] {
+        return this.roots
+            .map((root, index) =>
+                this.lastChangeIds[index] !== getContainerChangeId(root) ? index : -1
+            )
+            .filter(index => index >= 0)
+    }
+
+    /**
+     * Renders a container into the scratch texture and blits it into its layer
+     */
+    private renderLayer(index: number, attach: LayerAttachment, flipRows: boolean): void {
+        const { gl } = this.app
+        const { renderer } = this.app.pixiApp
+        const root = this.roots[index]
+
+        gl.clearColor(0, 0, 0, 0)
+        renderer.resetState()
+        renderer.render({
+            target: this.scratch,
+            container: root,
+            clear: true,
+            transform: this.flipTransform,
+        })
+        gl.bindVertexArray(null)
+
+        // PIXI cannot target a face or layer of a texture it does not own, copy it over instead
+        this.readFramebuffer ??= gl.createFramebuffer()
+        this.drawFramebuffer ??= gl.createFramebuffer()
+        const source = (renderer.texture as GlTextureSystem).getGlSource(this.scratch.source)
+        gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.readFramebuffer)
+        gl.framebufferTexture2D(
+            gl.READ_FRAMEBUFFER,
+            gl.COLOR_ATTACHMENT0,
+            gl.TEXTURE_2D,
+            source.texture,
+            0
+        )
+        gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, this.drawFramebuffer)
+        attach(gl, index)
+        const { width, height } = this.renderSize
+        gl.disable(gl.SCISSOR_TEST)
+        gl.blitFramebuffer(
+            0,
+            0,
+            width,
+            height,
+            0,
+            flipRows ? height : 0,
+            width,
+            flipRows ? 0 : height,
+            gl.COLOR_BUFFER_BIT,
+            gl.NEAREST
+        )
+        gl.bindFramebuffer(gl.READ_FRAMEBUFFER, null)
+        gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null)
+        unbindPixiSamplers(renderer)
+
+        this.lastChangeIds[index] = getContainerChangeId(root)
+    }
+}
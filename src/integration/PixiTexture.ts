@@ -1,21 +1,80 @@
 import { Constants } from '@babylonjs/core/Engines/constants'
 import { Engine } from '@babylonjs/core/Engines/engine'
+import { BaseTexture } from '@babylonjs/core/Materials/Textures/baseTexture'
 import { RawTexture } from '@babylonjs/core/Materials/Textures/rawTexture'
+import { Texture } from '@babylonjs/core/Materials/Textures/texture'
 import { ISize } from '@babylonjs/core/Maths'
+import { SerializationHelper } from '@babylonjs/core/Misc/decorators.serialization'
 import { Observer } from '@babylonjs/core/Misc/observable'
-import { Container, GlTextureSystem, Rectangle, RenderTexture } from 'pixi.js'
+import { RegisterClass } from '@babylonjs/core/Misc/typeStore'
+import { Scene } from '@babylonjs/core/scene'
+import { Container, GlTextureSystem, Matrix, Point, Rectangle, RenderTexture } from 'pixi.js'
 
 import { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import { SyncableTexture } from '../core/TextureSyncScheduler.js'
+import { flipPixelRows, unpremultiplyPixels } from '../core/imageData.js'
+import { getContainerChangeId } from '../pixi/getContainerChangeId.js'
+import { unbindPixiSamplers } from '../pixi/unbindPixiSamplers.js'
 
 import { BabylonTextureFilter } from './BabylonTextureFilter.js'
+import { PixiTextureInteraction } from './PixiTextureInteraction.js'
+
+/**
+ * How a PixiTexture keeps its content up to date
+ * - `always`: re-renders every frame
+ * - `onChange`: re-renders when the scene graph of the container changed
+ * - `manual`: renders once, then only through `sync()` or `render()`
+ */
+export type PixiTextureUpdateMode = 'always' | 'onChange' | 'manual'
+
+/**
+ * How the texture stores alpha
+ * - `straight`: un-premultiplied by an extra filter pass, works with every material
+ * - `premultiplied`: rendered in a single pass, materials must blend with
+ *   `Constants.ALPHA_PREMULTIPLIED_PORTERDUFF`
+ */
+export type PixiTextureAlphaMode = 'straight' | 'premultiplied'
 
 export interface DynamicTextureOptions {
-    /** Whether to automatically update the texture */
+    /** Whether to automatically update the texture, shorthand for `updateMode: 'always'` */
     autoUpdate?: boolean
+    /** How the texture is kept up to date, defaults to `always` with autoUpdate, else `manual` */
+    updateMode?: PixiTextureUpdateMode
+    /** Maximum number of automatic updates per second */
+    maxFps?: number
     /** Name identifier for the texture */
     name?: string
     /** Resolution multiplier for the render texture */
     resolution?: number
+    /** Whether pointer events on meshes using the texture are dispatched to the container */
+    interactive?: boolean
+    /** Whether to generate mipmaps after each sync */
+    generateMipMaps?: boolean
+    /** Babylon sampling mode, defaults to trilinear with mipmaps, else bilinear */
+    samplingMode?: number
+    /** Anisotropic filtering level, useful for textures seen at grazing angles */
+    anisotropicFilteringLevel?: number
+    /** Babylon address mode along U */
+    wrapU?: number
+    /** Babylon address mode along V */
+    wrapV?: number
+    /** How alpha is stored, `premultiplied` skips the correction pass, defaults to `straight` */
+    alphaMode?: PixiTextureAlphaMode
+    /** Key of the container in the application's container registry, defaults to the name */
+    contentKey?: string
+}
+
+/**
+ * JSON representation of a PixiTexture, as written into serialized scenes
+ */
+export interface SerializedPixiTexture {
+    customType: 'BABYLON.PixiTexture'
+    /** Target size of the texture */
+    size: { width: number; height: number }
+    /** Options the texture was created with */
+    options: Required<DynamicTextureOptions>
+    /** Babylon texture properties */
+    [property: string]: unknown
 }
 /**
  * PixiDynamicTexture allows rendering any PIXI object as a Babylon.js texture
@@ -28,6 +87,8 @@ export interface DynamicTextureOptions {
  * Technical Details:
  * - Uses two FBOs (Frame Buffer Objects): one for coordinate/premultiplication correction,
  *   one for generating the Babylon.js static texture
+ * - With `alphaMode: 'premultiplied'` the content is rendered flipped straight into the
+ *   texture in a single pass, the material then has to blend premultiplied colors
  * - Babylon.js uses the WebGL texture directly without additional overhead
  * - Manual synchronization required - no automatic updates unless autoUpdate is enabled
  *
@@ -41,7 +102,9 @@ export interface DynamicTextureOptions {
  * // Create dynamic texture
  * const dynamicTexture = new PixiDynamicTexture(pixiContainer, { width: 512, height: 512 }, {
  *   autoUpdate: true,
- *   name: 'ui-overlay'
+ *   name: 'ui-overlay',
+ *   // buttons inside the container react to pointers on the mesh
+ *   interactive: true
  * })
  *
  * // Use in Babylon material
@@ -49,23 +112,35 @@ export interface DynamicTextureOptions {
  * material.diffuseTexture = dynamicTexture
  * ```
  */
-export class PixiTexture<T extends Container = Container> extends RawTexture {
+export class PixiTexture<T extends Container = Container>
+    extends RawTexture
+    implements SyncableTexture
+{
     /** Configuration options for the dynamic texture */
     public readonly options: Required<DynamicTextureOptions>
 
-    /** The PIXI render texture used for capturing content */
-    public readonly renderTexture: RenderTexture
+    /** The PIXI render texture used for capturing content, recreated on resize */
+    public renderTexture!: RenderTexture
 
     /** Babylon texture filter for handling coordinate system differences */
     public readonly filter: BabylonTextureFilter
 
     /** The actual render size (width/height * resolution) */
-    public readonly renderSize: { width: number; height: number }
+    public renderSize: { width: number; height: number }
 
     /** Root container that wraps the user's container with filters */
     public readonly rootPixiContainer = new Container()
 
+    /** Pointer event dispatcher, only set for interactive textures */
+    public readonly interaction?: PixiTextureInteraction
+
+    /** Time of the last sync, in milliseconds */
+    public lastSyncTime = -Infinity
+
     private observer?: Observer<void>
+    private lastChangeId?: number
+    /** Flips Y while rendering in premultiplied mode, where no filter does it */
+    private flipTransform?: Matrix
 
     /**
      * Creates a new PixiDynamicTexture
@@ -73,11 +148,11 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
      * @param container - The PIXI container to render as texture
      * @param size - Target size for the texture (defaults to container size)
      * @param options - Configuration options
-     * @param pixiBabylonApplication checkout Application
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
      */
     constructor(
         public readonly container: T,
-        public readonly size: ISize = container,
+        public size: ISize = container,
         options: Partial<DynamicTextureOptions> = {},
         private pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
     ) {
@@ -89,22 +164,23 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
         // Resolve default options
         const defaultOptions: Required<DynamicTextureOptions> = {
             autoUpdate: false,
+            updateMode: options.autoUpdate ? 'always' : 'manual',
+            maxFps: Infinity,
             name: '',
             resolution: renderer?.resolution ?? 1,
+            interactive: false,
+            generateMipMaps: false,
+            samplingMode: options.generateMipMaps
+                ? Texture.TRILINEAR_SAMPLINGMODE
+                : Texture.BILINEAR_SAMPLINGMODE,
+            anisotropicFilteringLevel: BaseTexture.DEFAULT_ANISOTROPIC_FILTERING_LEVEL,
+            wrapU: Texture.WRAP_ADDRESSMODE,
+            wrapV: Texture.WRAP_ADDRESSMODE,
+            alphaMode: 'straight',
+            contentKey: options.name ?? '',
         }
         const resolvedOptions = { ...defaultOptions, ...options }
-
-        // Ensure integer dimensions
-        const normalizedSize = {
-            width: Math.ceil(size.width),
-            height: Math.ceil(size.height),
-        }
-
-        // Calculate actual render size based on resolution
-        const renderSize = {
-            width: Math.ceil(normalizedSize.width * resolvedOptions.resolution),
-            height: Math.ceil(normalizedSize.height * resolvedOptions.resolution),
-        }
+        const { normalizedSize, renderSize } = PixiTexture.measure(size, resolvedOptions.resolution)
 
         // Initialize Babylon raw texture
         super(
@@ -113,55 +189,71 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
             renderSize.height,
             Constants.TEXTUREFORMAT_RGBA,
             scene!,
-            false, // generateMipMaps
-            true // invertY
+            resolvedOptions.generateMipMaps,
+            true, // invertY
+            resolvedOptions.samplingMode
         )
 
         this.renderSize = renderSize
         this.options = resolvedOptions
         this.name = resolvedOptions.name
+        this.anisotropicFilteringLevel = resolvedOptions.anisotropicFilteringLevel
+        this.wrapU = resolvedOptions.wrapU
+        this.wrapV = resolvedOptions.wrapV
 
         // Set up coordinate system correction
         // Babylon's UV coordinate system and PIXI's XY coordinate system have different Y-axis directions
         // Babylon textures don't use premultiplied alpha by default, but PIXI does
         this.filter = new BabylonTextureFilter()
         this.filter.resolution = 'inherit'
-        this.rootPixiContainer.filters = [this.filter]
-        this.rootPixiContainer.filterArea = new Rectangle(
-            0,
-            0,
-            normalizedSize.width,
-            normalizedSize.height
-        )
+        if (resolvedOptions.alphaMode === 'straight') {
+            this.rootPixiContainer.filters = [this.filter]
+        }
+        this.updateCorrection(normalizedSize)
         this.rootPixiContainer.addChild(this.container)
 
-        // Create PIXI render texture
-        const renderTexture = RenderTexture.create({
-            width: normalizedSize.width,
-            height: normalizedSize.height,
-            resolution: resolvedOptions.resolution,
-        })
-        this.renderTexture = renderTexture
-
         // Set up Babylon.js texture properties
         this['hasAlpha'] = true
 
-        // Get WebGL texture from PIXI and wrap it for Babylon.js
-        const engine = scene!.getEngine() as Engine
-        const webGlSource = (renderer!.texture as GlTextureSystem).getGlSource(renderTexture.source)
-        this['_texture'] = engine.wrapWebGLTexture(
-            webGlSource.texture,
-            false,
-            undefined,
-            this.renderSize.width,
-            this.renderSize.height
-        )
-        this['_texture'].type = Constants.TEXTURETYPE_UNSIGNED_BYTE
+        this.createRenderTexture(normalizedSize)
+
+        if (resolvedOptions.interactive) {
+            this.interaction = new PixiTextureInteraction(this)
+        }
+        pixiBabylonApplication.pixiTextures.add(this)
 
         // Set up automatic updates if requested
         this.setupUpdateBehavior()
     }
 
+    /**
+     * Resizes the texture, recreating the PIXI render texture
+     * Materials using the texture stay bound, the content is synced right away
+     *
+     * @param size - New target size for the texture
+     * @param resolution - New resolution multiplier, defaults to the current one
+     */
+    public resize(size: ISize, resolution: number = this.options.resolution): void {
+        const previous = this.renderTexture
+        this.size = size
+        this.options.resolution = resolution
+        const { normalizedSize, renderSize } = PixiTexture.measure(size, resolution)
+        this.renderSize = renderSize
+        this.updateCorrection(normalizedSize)
+        this.createRenderTexture(normalizedSize)
+        previous.destroy(true)
+        this.sync(true)
+    }
+
+    /**
+     * Rewraps the WebGL texture after the context was restored and re-renders the content
+     * PIXI recreates the render texture on restore, the previous wrapper points to the lost one
+     */
+    public restore(): void {
+        this.wrapRenderTexture()
+        this.sync(true)
+    }
+
     /**
      * Manually synchronize the texture content
      * Call this after modifying the PIXI container content
@@ -173,6 +265,7 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
             pixiApp: { renderer },
             gl,
         } = this.pixiBabylonApplication
+        const start = performance.now()
 
         // Prepare for PIXI rendering
         gl.clearColor(0, 0, 0, 0)
@@ -183,10 +276,39 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
             target: this.renderTexture,
             container: this.rootPixiContainer,
             clear: clear,
+            transform: this.flipTransform,
         })
         // Clean up WebGL state for Babylon.js
         gl.bindVertexArray(null)
         gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+        unbindPixiSamplers(renderer)
+        this.pixiBabylonApplication.glStateDebugger?.check('texture-sync')
+
+        if (this.options.generateMipMaps) {
+            this.getScene()!.getEngine().generateMipmaps(this['_texture']!)
+        }
+
+        this.lastSyncTime = performance.now()
+        if (this.options.updateMode === 'onChange') {
+            this.lastChangeId = getContainerChangeId(this.rootPixiContainer)
+        }
+        this.pixiBabylonApplication.stats.recordTextureSync(this.lastSyncTime - start)
+    }
+
+    /**
+     * Whether the texture should be synced automatically at the given time
+     *
+     * @param now - Current time in milliseconds
+     */
+    public needsSync(now: number): boolean {
+        const { updateMode, maxFps } = this.options
+        if (updateMode === 'manual' || now - this.lastSyncTime < 1000 / maxFps) {
+            return false
+        }
+        return (
+            updateMode === 'always' ||
+            this.lastChangeId !== getContainerChangeId(this.rootPixiContainer)
+        )
     }
 
     /**
@@ -201,9 +323,114 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
                 this.sync(true)
                 resolve()
             })
+            this.pixiBabylonApplication.scheduler.invalidate()
         })
     }
 
+    /**
+     * Converts a point of the texture into the local space of the root container
+     */
+    textureToLocal(u: number, v: number, out: Point = new Point()): Point {
+        const { renderSize, options } = this
+        // the content is flipped, so v = 1 is the first row of the PIXI content
+        return out.set(
+            (u * renderSize.width) / options.resolution,
+            ((1 - v) * renderSize.height) / options.resolution
+        )
+    }
+
+    /**
+     * Reads the current content of the texture
+     * The content is not re-rendered, call `sync()` first for manual textures
+     *
+     * @returns Straight alpha pixels, top row first
+     */
+    toImageData(): ImageData {
+        const { renderer } = this.pixiBabylonApplication.pixiApp
+        const output = renderer.extract.pixels(this.renderTexture)
+        const pixels = new Uint8ClampedArray(output.pixels.buffer as ArrayBuffer)
+        // the content is stored flipped for Babylon
+        flipPixelRows(pixels, output.width, output.height)
+        if (this.options.alphaMode === 'premultiplied') {
+            unpremultiplyPixels(pixels)
+        }
+        const { gl } = this.pixiBabylonApplication
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+        return new ImageData(pixels, output.width, output.height)
+    }
+
+    /**
+     * Snapshots the current content into a static Babylon texture
+     * The snapshot keeps the sampling, wrapping and UV settings of this texture
+     *
+     * @param name - Name of the static texture
+     */
+    bake(name = `${this.name}-baked`): RawTexture {
+        const imageData = this.toImageData()
+        const texture = new RawTexture(
+            new Uint8Array(imageData.data.buffer),
+            imageData.width,
+            imageData.height,
+            Constants.TEXTUREFORMAT_RGBA,
+            this.getScene(),
+            this.options.generateMipMaps,
+            true, // invertY
+            this.options.samplingMode
+        )
+        texture.name = name
+        texture.hasAlpha = true
+        texture.wrapU = this.wrapU
+        texture.wrapV = this.wrapV
+        texture.uScale = this.uScale
+        texture.vScale = this.vScale
+        texture.uOffset = this.uOffset
+        texture.vOffset = this.vOffset
+        texture.anisotropicFilteringLevel = this.anisotropicFilteringLevel
+        return texture
+    }
+
+    /**
+     * Serializes the texture for `SceneSerializer`
+     * The content is stored as its key, loading the scene rebuilds it from the container registry
+     */
+    serialize(): SerializedPixiTexture {
+        const serializationObject = SerializationHelper.Serialize(this)
+        SerializationHelper.AppendSerializedAnimations(this, serializationObject)
+        serializationObject.customType = 'BABYLON.PixiTexture'
+        serializationObject.size = { width: this.size.width, height: this.size.height }
+        serializationObject.options = { ...this.options }
+        return serializationObject
+    }
+
+    /**
+     * Rebuilds a serialized texture in the application owning the scene
+     * Called by Babylon's texture parsing for textures serialized by `serialize()`
+     *
+     * @param parsedTexture - JSON representation of the texture
+     * @param scene - Scene of an application, the container registry of which creates the content
+     * @param rootUrl - Root url of the parsed scene
+     * @returns The texture, or null when no factory is registered for its content key
+     */
+    static Parse(
+        parsedTexture: SerializedPixiTexture,
+        scene: Scene,
+        rootUrl: string
+    ): PixiTexture | null {
+        const app = PixiBabylonApplication.fromScene(scene)
+        if (!app) {
+            throw new Error('PixiTexture can only be parsed into the scene of an application!')
+        }
+        const { size, options } = parsedTexture
+        const container = app.containerRegistry.create(options.contentKey)
+        if (!container) {
+            console.warn(`PixiTexture: no container registered for '${options.contentKey}'`)
+            return null
+        }
+        const texture = new PixiTexture(container, size, options, app)
+        SerializationHelper.ParseProperties(parsedTexture, texture, scene, rootUrl)
+        return texture
+    }
+
     /**
      * Cleans up resources and removes observers
      * Call this when the texture is no longer needed
@@ -213,6 +440,9 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
         if (this.observer) {
             this.observer.remove()
         }
+        this.pixiBabylonApplication.textureSync.remove(this)
+        this.pixiBabylonApplication.pixiTextures.delete(this)
+        this.interaction?.dispose()
         this.renderTexture.destroy(true)
         this.rootPixiContainer.destroy({ children: false }) // Don't destroy user's container
     }
@@ -221,6 +451,80 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
         return this.pixiBabylonApplication.beforeRenderObservable
     }
 
+    /**
+     * Calculates the integer size of the content and the size of the texture in pixels
+     */
+    private static measure(size: ISize, resolution: number) {
+        // Ensure integer dimensions
+        const normalizedSize = {
+            width: Math.ceil(size.width),
+            height: Math.ceil(size.height),
+        }
+
+        // Calculate actual render size based on resolution
+        const renderSize = {
+            width: Math.ceil(normalizedSize.width * resolution),
+            height: Math.ceil(normalizedSize.height * resolution),
+        }
+        return { normalizedSize, renderSize }
+    }
+
+    /**
+     * Fits the Y-flip of either alpha mode to the size of the content
+     */
+    private updateCorrection(normalizedSize: ISize): void {
+        if (this.options.alphaMode === 'straight') {
+            this.rootPixiContainer.filterArea = new Rectangle(
+                0,
+                0,
+                normalizedSize.width,
+                normalizedSize.height
+            )
+        } else {
+            this.flipTransform = new Matrix(1, 0, 0, -1, 0, normalizedSize.height)
+        }
+    }
+
+    /**
+     * Creates the PIXI render texture and wraps its WebGL texture for Babylon.js
+     */
+    private createRenderTexture(normalizedSize: ISize): void {
+        const { resolution } = this.options
+
+        // Create PIXI render texture
+        const renderTexture = RenderTexture.create({
+            width: normalizedSize.width,
+            height: normalizedSize.height,
+            resolution,
+        })
+        this.renderTexture = renderTexture
+        this.wrapRenderTexture()
+    }
+
+    /**
+     * Wraps the WebGL texture of the PIXI render texture for Babylon.js
+     * The previous Babylon internal texture is released
+     */
+    private wrapRenderTexture(): void {
+        const { renderer } = this.pixiBabylonApplication.pixiApp
+        const { generateMipMaps, samplingMode } = this.options
+        const { renderTexture } = this
+
+        // Get WebGL texture from PIXI and wrap it for Babylon.js
+        const engine = this.getScene()!.getEngine() as Engine
+        const webGlSource = (renderer.texture as GlTextureSystem).getGlSource(renderTexture.source)
+        this['_texture']?.dispose()
+        this['_texture'] = engine.wrapWebGLTexture(
+            webGlSource.texture,
+            generateMipMaps,
+            samplingMode,
+            this.renderSize.width,
+            this.renderSize.height
+        )
+        this['_texture'].type = Constants.TEXTURETYPE_UNSIGNED_BYTE
+        this.updateSamplingMode(samplingMode)
+    }
+
     /**
      * Sets up the update behavior based on options
      */
@@ -232,16 +536,17 @@ export class PixiTexture<T extends Container = Container> extends RawTexture {
             return
         }
 
-        if (this.options.autoUpdate) {
-            // Update every frame
-            this.observer = this.beforeRenderObservable.add(() => {
-                this.sync(true)
-            })
+        if (this.options.updateMode !== 'manual') {
+            // Update every frame or on change, within the application's sync budget
+            this.pixiBabylonApplication.textureSync.add(this)
         } else {
             // Update once on next frame
             this.observer = this.beforeRenderObservable.addOnce(() => {
                 this.sync(true)
             })
+            this.pixiBabylonApplication.scheduler.invalidate()
         }
     }
 }
+
+RegisterClass('BABYLON.PixiTexture', PixiTexture)
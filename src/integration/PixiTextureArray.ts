@@ -0,0 +1,141 @@
+import { Constants } from '@babylonjs/core/Engines/constants'
+import { RawTexture2DArray } from '@babylonjs/core/Materials/Textures/rawTexture2DArray'
+import { ISize } from '@babylonjs/core/Maths'
+import { Container } from 'pixi.js'
+
+import { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import { SyncableTexture } from '../core/TextureSyncScheduler.js'
+
+import {
+    LayerAttachment,
+    PixiLayeredContent,
+    PixiLayeredTextureOptions,
+} from './PixiLayeredContent.js'
+
+/**
+ * 2D-array texture rendering one PIXI container per layer
+ *
+ * Feeds custom shaders with variants of the same content, e.g. one layer per decal variant,
+ * sampled with a `sampler2DArray`. Every layer has the same size and goes through the same
+ * correction as a PixiTexture, so layers are sampled like a PixiTexture: v = 1 is the top of
+ * the content. The update modes work per layer, `onChange` only re-renders the changed layers.
+ *
+ * @example
+ * ```typescript
+ * const decals = new PixiTextureArray([cracks, moss, graffiti], { width: 256, height: 256 }, {
+ *     updateMode: 'onChange',
+ * })
+ * shaderMaterial.setTexture('decals', decals)
+ * ```
+ */
+export class PixiTextureArray<T extends Container = Container>
+    extends RawTexture2DArray
+    implements SyncableTexture
+{
+    /** Renders the layers, holds the options and the root containers */
+    public readonly content: PixiLayeredContent
+
+    private readonly attachLayer: LayerAttachment = (gl, index) => {
+        const texture = this['_texture']!._hardwareTexture!.underlyingResource as WebGLTexture
+        gl.framebufferTextureLayer(gl.DRAW_FRAMEBUFFER, gl.COLOR_ATTACHMENT0, texture, 0, index)
+    }
+
+    /**
+     * @param layers - The containers of the layers
+     * @param size - Size of each layer
+     * @param options - Configuration options
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
+     */
+    constructor(
+        public readonly layers: T[],
+        size: ISize,
+        options: Partial<PixiLayeredTextureOptions> = {},
+        private pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
+    ) {
+        if (!pixiBabylonApplication) {
+            throw new Error('not context provide!')
+        }
+        if (!layers.length) {
+            throw new Error('PixiTextureArray needs at least one container!')
+        }
+        const content = new PixiLayeredContent(layers, size, options, pixiBabylonApplication)
+        const { generateMipMaps, samplingMode } = content.options
+        super(
+            null,
+            content.renderSize.width,
+            content.renderSize.height,
+            layers.length,
+            Constants.TEXTUREFORMAT_RGBA,
+            pixiBabylonApplication.scene,
+            generateMipMaps,
+            false, // invertY
+            samplingMode
+        )
+        this.content = content
+        this.name = content.options.name
+        this.anisotropicFilteringLevel = content.options.anisotropicFilteringLevel
+        this.hasAlpha = true
+        pixiBabylonApplication.layeredTextures.add(this)
+        content.schedule(this)
+    }
+
+    /** Time of the last sync, in milliseconds */
+    get lastSyncTime(): number {
+        return this.content.lastSyncTime
+    }
+
+    /**
+     * Renders the layers into the array texture
+     * In `onChange` mode only the layers whose containers changed are rendered
+     *
+     * @param all - Whether to render every layer regardless of the update mode
+     */
+    sync(all = false): void {
+        // the correction already flipped the rows like a PixiTexture's
+        this.content.sync(this['_texture']!, this.attachLayer, false, all)
+    }
+
+    needsSync(now: number): boolean {
+        return this.content.needsSync(now)
+    }
+
+    /**
+     * Resizes the layers, recreating the array texture
+     * Materials using the texture stay bound, the content is synced right away
+     *
+     * @param size - New size of each layer
+     * @param resolution - New resolution multiplier, defaults to the current one
+     */
+    resize(size: ISize, resolution: number = this.content.options.resolution): void {
+        const { content } = this
+        content.resize(size, resolution)
+        const { generateMipMaps, samplingMode } = content.options
+        this['_texture']?.dispose()
+        this['_texture'] = this.getScene()!.getEngine().createRawTexture2DArray(
+            null,
+            content.renderSize.width,
+            content.renderSize.height,
+            this.layers.length,
+            Constants.TEXTUREFORMAT_RGBA,
+            generateMipMaps,
+            false, // invertY
+            samplingMode
+        )
+        this.sync(true)
+    }
+
+    /**
+     * Re-renders the layers after the context was restored
+     * Babylon reallocates the array texture itself, its content is lost
+     */
+    restore(): void {
+        this.content.restore()
+        this.sync(true)
+    }
+
+    dispose(): void {
+        super.dispose()
+        this.content.dispose(this)
+        this.pixiBabylonApplication.layeredTextures.delete(this)
+    }
+}
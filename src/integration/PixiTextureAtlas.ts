@@ -0,0 +1,351 @@
+import { Constants } from '@babylonjs/core/Engines/constants'
+import { Engine } from '@babylonjs/core/Engines/engine'
+import { BaseTexture } from '@babylonjs/core/Materials/Textures/baseTexture'
+import { InternalTexture } from '@babylonjs/core/Materials/Textures/internalTexture'
+import { Texture } from '@babylonjs/core/Materials/Textures/texture'
+import { ISize } from '@babylonjs/core/Maths'
+import { Container, GlTextureSystem, RenderTexture } from 'pixi.js'
+
+import { FrameHook } from '../core/FrameScheduler.js'
+import { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import { ShelfPacker } from '../core/ShelfPacker.js'
+
+import { PixiTextureAtlasEntry, PixiTextureAtlasEntryOptions } from './PixiTextureAtlasEntry.js'
+
+export interface PixiTextureAtlasOptions {
+    /** Name prefix of the pages */
+    name?: string
+    /** Initial width and height of a page in pixels, defaults to 512 */
+    pageSize?: number
+    /** Size in pixels up to which a full page grows before a new one is added, defaults to 2048 */
+    maxPageSize?: number
+    /** Transparent pixels kept around each entry so neighbours do not bleed in, defaults to 2 */
+    padding?: number
+    /** Resolution multiplier of the entries */
+    resolution?: number
+    /** Whether to generate mipmaps of the pages after entries were synced */
+    generateMipMaps?: boolean
+    /** Babylon sampling mode, defaults to trilinear with mipmaps, else bilinear */
+    samplingMode?: number
+    /** Anisotropic filtering level, useful for textures seen at grazing angles */
+    anisotropicFilteringLevel?: number
+}
+
+/**
+ * A shared render texture holding the content of several atlas entries
+ */
+export class PixiTextureAtlasPage {
+    /** The PIXI render texture holding the entries, recreated when the page grows */
+    public renderTexture!: RenderTexture
+
+    /** Babylon texture wrapping the render texture, shared by the entries */
+    public internalTexture!: InternalTexture
+
+    /** Entries placed on the page */
+    public readonly entries = new Set<PixiTextureAtlasEntry>()
+
+    /** Whether entries were synced since the mipmaps were last generated */
+    public mipMapsDirty = false
+
+    private packer: ShelfPacker
+
+    constructor(
+        private readonly atlas: PixiTextureAtlas,
+        public size: number
+    ) {
+        this.packer = new ShelfPacker(size)
+        this.createRenderTexture()
+    }
+
+    /**
+     * Places an entry on the page, repacking the page or growing it when needed
+     *
+     * @returns Whether the entry was placed
+     */
+    insert(entry: PixiTextureAtlasEntry): boolean {
+        const { width, height } = this.atlas.paddedSize(entry)
+        const rect = this.packer.insert(width, height)
+        if (rect) {
+            this.entries.add(entry)
+            entry.assign(this, rect)
+            return true
+        }
+        const entries = [...this.entries, entry]
+        for (let size = this.size; size <= this.atlas.options.maxPageSize; size *= 2) {
+            if (this.repack(entries, size)) {
+                return true
+            }
+        }
+        return false
+    }
+
+    /**
+     * Removes an entry, its region is reclaimed by the next repack
+     */
+    remove(entry: PixiTextureAtlasEntry): void {
+        this.entries.delete(entry)
+    }
+
+    /**
+     * Rewraps the WebGL texture after the context was restored and re-renders the entries
+     */
+    restore(): void {
+        this.wrapRenderTexture()
+        this.entries.forEach(entry => entry.assign(this, entry.rect))
+    }
+
+    /**
+     * Generates the mipmaps if entries changed since the last time
+     */
+    updateMipMaps(): void {
+        if (this.mipMapsDirty) {
+            this.atlas.engine.generateMipmaps(this.internalTexture)
+            this.mipMapsDirty = false
+        }
+    }
+
+    dispose(): void {
+        this.entries.clear()
+        this.internalTexture.dispose()
+        this.renderTexture.destroy(true)
+    }
+
+    /**
+     * Packs the entries again from scratch, on a larger render texture if the size changed
+     * The content of every entry is re-rendered
+     *
+     * @returns Whether all entries fit
+     */
+    private repack(entries: PixiTextureAtlasEntry[], size: number): boolean {
+        const result = ShelfPacker.pack(
+            size,
+            entries.map(entry => this.atlas.paddedSize(entry))
+        )
+        if (!result) {
+            return false
+        }
+        const previous = size !== this.size ? this.renderTexture : undefined
+        if (previous) {
+            this.size = size
+            this.createRenderTexture()
+        }
+        this.packer = result.packer
+        entries.forEach((entry, i) => {
+            this.entries.add(entry)
+            entry.assign(this, result.packed[i])
+        })
+        previous?.destroy(true)
+        return true
+    }
+
+    private createRenderTexture(): void {
+        const { resolution } = this.atlas.options
+        this.renderTexture = RenderTexture.create({
+            width: this.size / resolution,
+            height: this.size / resolution,
+            resolution,
+            label: `${this.atlas.options.name}-page`,
+        })
+        this.wrapRenderTexture()
+    }
+
+    /**
+     * Wraps the WebGL texture of the render texture for Babylon.js
+     * The entries still hold the previous wrapper until they are assigned again
+     */
+    private wrapRenderTexture(): void {
+        const { atlas } = this
+        const { generateMipMaps, samplingMode } = atlas.options
+        const renderer = atlas.pixiBabylonApplication.pixiApp.renderer
+        const webGlSource = (renderer.texture as GlTextureSystem).getGlSource(
+            this.renderTexture.source
+        )
+        const texture = atlas.engine.wrapWebGLTexture(
+            webGlSource.texture,
+            generateMipMaps,
+            samplingMode,
+            this.size,
+            this.size
+        )
+        texture.type = Constants.TEXTURETYPE_UNSIGNED_BYTE
+        this.internalTexture?.dispose()
+        this.internalTexture = texture
+    }
+}
+
+/**
+ * Packs many small PIXI containers into a few shared render textures
+ *
+ * Every `PixiTexture` owns a render texture, a render pass and a material bind, which adds up with
+ * hundreds of nameplates or labels. The entries of an atlas share square pages instead and only
+ * address their region through `uOffset`, `vOffset`, `uScale` and `vScale`. A sync re-renders
+ * the region of the entry alone, scissored so the rest of the page is left untouched.
+ *
+ * When an entry does not fit, its page is repacked, then doubled up to `maxPageSize`, and
+ * finally another page is added. Entries are stored with premultiplied alpha like
+ * `alphaMode: 'premultiplied'` textures, materials must blend with
+ * `Constants.ALPHA_PREMULTIPLIED_PORTERDUFF`. They cannot repeat and are clamped to their region.
+ *
+ * @example
+ * ```typescript
+ * const atlas = new PixiTextureAtlas({ name: 'nameplates' })
+ *
+ * for (const unit of units) {
+ *     const size = { width: 128, height: 32 }
+ *     unit.material.diffuseTexture = atlas.add(unit.nameplate, size, { updateMode: 'onChange' })
+ *     unit.material.alphaMode = Constants.ALPHA_PREMULTIPLIED_PORTERDUFF
+ * }
+ * ```
+ */
+export class PixiTextureAtlas {
+    /** Configuration options of the atlas */
+    public readonly options: Required<PixiTextureAtlasOptions>
+
+    /** Pages in the order they were added */
+    public readonly pages: PixiTextureAtlasPage[] = []
+
+    private readonly mipMapHook?: FrameHook
+
+    /**
+     * @param options - Configuration options
+     * @param pixiBabylonApplication - Owning application, defaults to the last created one
+     */
+    constructor(
+        options: PixiTextureAtlasOptions = {},
+        public readonly pixiBabylonApplication = PixiBabylonApplication.lastCreateApplication!
+    ) {
+        if (!pixiBabylonApplication) {
+            throw new Error('not context provide!')
+        }
+        const { renderer } = pixiBabylonApplication.pixiApp
+        this.options = {
+            name: 'atlas',
+            pageSize: 512,
+            maxPageSize: 2048,
+            padding: 2,
+            resolution: renderer.resolution,
+            generateMipMaps: false,
+            samplingMode: options.generateMipMaps
+                ? Texture.TRILINEAR_SAMPLINGMODE
+                : Texture.BILINEAR_SAMPLINGMODE,
+            anisotropicFilteringLevel: BaseTexture.DEFAULT_ANISOTROPIC_FILTERING_LEVEL,
+            ...options,
+        }
+        if (this.options.generateMipMaps) {
+            // after the entries of the frame were synced
+            this.mipMapHook = pixiBabylonApplication.scheduler.add(
+                'textureSync',
+                () => this.updateMipMaps(),
+                -1
+            )
+        }
+        pixiBabylonApplication.textureAtlases.add(this)
+    }
+
+    get engine(): Engine {
+        return this.pixiBabylonApplication.engine
+    }
+
+    /**
+     * Adds a container to the atlas
+     *
+     * @param container - The PIXI container to render into the atlas
+     * @param size - Size of the entry, defaults to the container size
+     * @param options - Update options of the entry
+     * @returns A texture showing the container, usable wherever a PixiTexture is
+     */
+    add<T extends Container>(
+        container: T,
+        size: ISize = container,
+        options: PixiTextureAtlasEntryOptions = {}
+    ): PixiTextureAtlasEntry<T> {
+        return new PixiTextureAtlasEntry(this, container, size, options)
+    }
+
+    /**
+     * Places an entry on the first page with room for it, adding a page when none has
+     * Called by the entries when they are created or resized
+     */
+    place(entry: PixiTextureAtlasEntry): void {
+        const { pageSize, maxPageSize } = this.options
+        const { width, height } = this.paddedSize(entry)
+        if (width > maxPageSize || height > maxPageSize) {
+            throw new Error(
+                `${width}x${height} atlas entry does not fit into ${maxPageSize}px pages!`
+            )
+        }
+        if (this.pages.some(page => page.insert(entry))) {
+            return
+        }
+        let size = pageSize
+        while (size < width || size < height) {
+            size *= 2
+        }
+        const page = new PixiTextureAtlasPage(this, Math.min(size, maxPageSize))
+        this.pages.push(page)
+        page.insert(entry)
+    }
+
+    /**
+     * Places a resized entry again, preferably on its current page
+     */
+    replace(entry: PixiTextureAtlasEntry): void {
+        const { page } = entry
+        page.remove(entry)
+        if (!page.insert(entry)) {
+            this.place(entry)
+            this.releasePage(page)
+        }
+    }
+
+    /**
+     * Removes an entry from its page, dropping the page once it is empty
+     */
+    remove(entry: PixiTextureAtlasEntry): void {
+        entry.page.remove(entry)
+        this.releasePage(entry.page)
+    }
+
+    /**
+     * Size of an entry on its page in pixels, padding included
+     */
+    paddedSize(entry: PixiTextureAtlasEntry): ISize {
+        const { padding } = this.options
+        return {
+            width: entry.renderSize.width + padding * 2,
+            height: entry.renderSize.height + padding * 2,
+        }
+    }
+
+    /**
+     * Generates the mipmaps of the pages whose entries changed
+     */
+    updateMipMaps(): void {
+        this.pages.forEach(page => page.updateMipMaps())
+    }
+
+    /**
+     * Rewraps the pages after the context was restored and re-renders every entry
+     */
+    restore(): void {
+        this.pages.forEach(page => page.restore())
+    }
+
+    /**
+     * Disposes all entries and pages
+     */
+    dispose(): void {
+        this.pages.flatMap(page => [...page.entries]).forEach(entry => entry.dispose())
+        if (this.mipMapHook) {
+            this.pixiBabylonApplication.scheduler.remove(this.mipMapHook)
+        }
+        this.pixiBabylonApplication.textureAtlases.delete(this)
+    }
+
+    private releasePage(page: PixiTextureAtlasPage): void {
+        if (!page.entries.size) {
+            this.pages.splice(this.pages.indexOf(page), 1)
+            page.dispose()
+        }
+    }
+}
@@ -0,0 +1,309 @@
+import { Constants } from '@babylonjs/core/Engines/constants'
+import { RawTexture } from '@babylonjs/core/Materials/Textures/rawTexture'
+import { Texture as BabylonTexture } from '@babylonjs/core/Materials/Textures/texture'
+import { ISize } from '@babylonjs/core/Maths'
+import { Observer } from '@babylonjs/core/Misc/observable'
+import { Container, Matrix, Point, Rectangle, Texture } from 'pixi.js'
+
+import { PackedRect } from '../core/ShelfPacker.js'
+import { SyncableTexture } from '../core/TextureSyncScheduler.js'
+import { flipPixelRows, unpremultiplyPixels } from '../core/imageData.js'
+import { getContainerChangeId } from '../pixi/getContainerChangeId.js'
+import { unbindPixiSamplers } from '../pixi/unbindPixiSamplers.js'
+
+import type { DynamicTextureOptions } from './PixiTexture.js'
+import type { PixiTextureAtlas, PixiTextureAtlasPage } from './PixiTextureAtlas.js'
+import { PixiTextureInteraction } from './PixiTextureInteraction.js'
+
+export type PixiTextureAtlasEntryOptions = Pick<
+    DynamicTextureOptions,
+    'autoUpdate' | 'updateMode' | 'maxFps' | 'name' | 'interactive'
+>
+
+/**
+ * A region of a PixiTextureAtlas page showing one container
+ *
+ * The entry is a Babylon texture sharing the WebGL texture of its page, with the UV transform
+ * set to its region. It syncs, resizes and bakes like a PixiTexture and can replace one on any
+ * material, as long as the material blends premultiplied alpha and does not change the offsets
+ * and scales of the texture. Create entries with `atlas.add()`.
+ */
+export class PixiTextureAtlasEntry<T extends Container = Container>
+    extends BabylonTexture
+    implements SyncableTexture
+{
+    /** Update options of the entry */
+    public readonly options: Required<PixiTextureAtlasEntryOptions>
+
+    /** The size of the content in pixels (width/height * resolution) */
+    public renderSize!: { width: number; height: number }
+
+    /** Root container that flips the user's container into the page */
+    public readonly rootPixiContainer = new Container()
+
+    /** Pointer event dispatcher, only set for interactive entries */
+    public readonly interaction?: PixiTextureInteraction
+
+    /** Time of the last sync, in milliseconds */
+    public lastSyncTime = -Infinity
+
+    /** Page holding the entry */
+    public page!: PixiTextureAtlasPage
+
+    /** Region of the entry on its page in pixels, padding included */
+    public rect!: PackedRect
+
+    private observer?: Observer<void>
+    private lastChangeId?: number
+    /** PIXI texture framing the region, the render target of a sync */
+    private frameTexture?: Texture
+    private readonly flipTransform = new Matrix()
+
+    constructor(
+        public readonly atlas: PixiTextureAtlas,
+        public readonly container: T,
+        public size: ISize = container,
+        options: PixiTextureAtlasEntryOptions = {}
+    ) {
+        super(null, atlas.pixiBabylonApplication.scene)
+        this.options = {
+            autoUpdate: false,
+            updateMode: options.autoUpdate ? 'always' : 'manual',
+            maxFps: Infinity,
+            name: '',
+            interactive: false,
+            ...options,
+        }
+        this.name = this.options.name
+        this.wrapU = BabylonTexture.CLAMP_ADDRESSMODE
+        this.wrapV = BabylonTexture.CLAMP_ADDRESSMODE
+        this.anisotropicFilteringLevel = atlas.options.anisotropicFilteringLevel
+        this['hasAlpha'] = true
+        this.rootPixiContainer.addChild(container)
+
+        this.renderSize = this.measure(size)
+        atlas.place(this)
+
+        if (this.options.interactive) {
+            this.interaction = new PixiTextureInteraction(this)
+        }
+        const app = atlas.pixiBabylonApplication
+        if (this.options.updateMode !== 'manual') {
+            app.textureSync.add(this)
+        } else {
+            // content is usually added right after creation
+            this.observer = app.beforeRenderObservable.addOnce(() => this.sync())
+            app.scheduler.invalidate()
+        }
+    }
+
+    /**
+     * Moves the entry to a region of a page and re-renders it there
+     * Called by the atlas whenever the entry is placed, packed again or its page is recreated
+     */
+    assign(page: PixiTextureAtlasPage, rect: PackedRect): void {
+        if (this['_texture'] !== page.internalTexture) {
+            this['_texture']?.dispose()
+            page.internalTexture.incrementReferences()
+            this['_texture'] = page.internalTexture
+            this.updateSamplingMode(this.atlas.options.samplingMode)
+        }
+        this.page = page
+        this.rect = rect
+
+        const { padding, resolution } = this.atlas.options
+        const { width, height } = this.renderSize
+        const x = rect.x + padding
+        const y = rect.y + padding
+        // rows are flipped into the page, so v grows towards the top of the content
+        this.uOffset = x / page.size
+        this.vOffset = y / page.size
+        this.uScale = width / page.size
+        this.vScale = height / page.size
+
+        this.frameTexture?.destroy()
+        this.frameTexture = new Texture({
+            source: page.renderTexture.source,
+            frame: new Rectangle(
+                x / resolution,
+                y / resolution,
+                width / resolution,
+                height / resolution
+            ),
+        })
+        this.flipTransform.set(1, 0, 0, -1, 0, height / resolution)
+        this.sync()
+    }
+
+    /**
+     * Resizes the entry, moving it to another region or page when it outgrows its own
+     * Materials using the entry stay bound, the content is synced right away
+     *
+     * @param size - New target size of the entry
+     */
+    resize(size: ISize): void {
+        this.size = size
+        const renderSize = this.measure(size)
+        const fitsInPlace =
+            renderSize.width <= this.renderSize.width && renderSize.height <= this.renderSize.height
+        this.renderSize = renderSize
+        if (fitsInPlace) {
+            this.assign(this.page, this.rect)
+            return
+        }
+        this.atlas.replace(this)
+    }
+
+    /**
+     * Re-renders the region of the entry, scissored so the rest of the page is left untouched
+     */
+    sync(): void {
+        const app = this.atlas.pixiBabylonApplication
+        const {
+            pixiApp: { renderer },
+            gl,
+        } = app
+        const target = this.frameTexture!
+        const start = performance.now()
+
+        renderer.resetState()
+        // clear the region with its padding, PIXI would clear the whole page
+        renderer.renderTarget.bind({ target, clear: false })
+        const { x, y, width, height } = this.rect
+        gl.enable(gl.SCISSOR_TEST)
+        gl.scissor(x, y, width, height)
+        gl.clearColor(0, 0, 0, 0)
+        gl.clear(gl.COLOR_BUFFER_BIT)
+        gl.disable(gl.SCISSOR_TEST)
+
+        // the frame of the target limits the viewport to the region
+        renderer.render({
+            container: this.rootPixiContainer,
+            target,
+            clear: false,
+            transform: this.flipTransform,
+        })
+        gl.bindVertexArray(null)
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+        unbindPixiSamplers(renderer)
+        app.glStateDebugger?.check('texture-sync')
+
+        this.page.mipMapsDirty = this.atlas.options.generateMipMaps
+        this.lastSyncTime = performance.now()
+        if (this.options.updateMode === 'onChange') {
+            this.lastChangeId = getContainerChangeId(this.rootPixiContainer)
+        }
+        app.stats.recordTextureSync(this.lastSyncTime - start)
+    }
+
+    /**
+     * Whether the entry should be synced automatically at the given time
+     *
+     * @param now - Current time in milliseconds
+     */
+    needsSync(now: number): boolean {
+        const { updateMode, maxFps } = this.options
+        if (updateMode === 'manual' || now - this.lastSyncTime < 1000 / maxFps) {
+            return false
+        }
+        return (
+            updateMode === 'always' ||
+            this.lastChangeId !== getContainerChangeId(this.rootPixiContainer)
+        )
+    }
+
+    /**
+     * Asynchronously render the entry before the next Babylon.js render frame
+     *
+     * @returns Promise that resolves when the entry has been updated
+     */
+    async render(): Promise<void> {
+        const app = this.atlas.pixiBabylonApplication
+        return new Promise<void>(resolve => {
+            app.beforeRenderObservable.addOnce(() => {
+                this.sync()
+                resolve()
+            })
+            app.scheduler.invalidate()
+        })
+    }
+
+    /**
+     * Converts a point of the page into the local space of the root container
+     */
+    textureToLocal(u: number, v: number, out: Point = new Point()): Point {
+        const { size } = this.page
+        const { padding, resolution } = this.atlas.options
+        const x = this.rect.x + padding
+        const top = this.rect.y + padding + this.renderSize.height
+        return out.set((u * size - x) / resolution, (top - v * size) / resolution)
+    }
+
+    /**
+     * Reads the current content of the entry
+     * The content is not re-rendered, call `sync()` first for manual entries
+     *
+     * @returns Straight alpha pixels, top row first
+     */
+    toImageData(): ImageData {
+        const app = this.atlas.pixiBabylonApplication
+        const output = app.pixiApp.renderer.extract.pixels(this.frameTexture!)
+        const pixels = new Uint8ClampedArray(output.pixels.buffer as ArrayBuffer)
+        flipPixelRows(pixels, output.width, output.height)
+        unpremultiplyPixels(pixels)
+        app.gl.bindFramebuffer(app.gl.FRAMEBUFFER, null)
+        return new ImageData(pixels, output.width, output.height)
+    }
+
+    /**
+     * Snapshots the current content into a static Babylon texture of its own
+     *
+     * @param name - Name of the static texture
+     */
+    bake(name = `${this.name}-baked`): RawTexture {
+        const imageData = this.toImageData()
+        const { generateMipMaps, samplingMode } = this.atlas.options
+        const texture = new RawTexture(
+            new Uint8Array(imageData.data.buffer),
+            imageData.width,
+            imageData.height,
+            Constants.TEXTUREFORMAT_RGBA,
+            this.getScene(),
+            generateMipMaps,
+            true, // invertY
+            samplingMode
+        )
+        texture.name = name
+        texture.hasAlpha = true
+        texture.wrapU = this.wrapU
+        texture.wrapV = this.wrapV
+        texture.anisotropicFilteringLevel = this.anisotropicFilteringLevel
+        return texture
+    }
+
+    /**
+     * Removes the entry from the atlas
+     * The page is released along with its last entry
+     */
+    dispose(): void {
+        super.dispose()
+        this.observer?.remove()
+        const app = this.atlas.pixiBabylonApplication
+        app.textureSync.remove(this)
+        this.atlas.remove(this)
+        this.interaction?.dispose()
+        this.frameTexture?.destroy()
+        this.rootPixiContainer.destroy({ children: false }) // Don't destroy user's container
+    }
+
+    /**
+     * Calculates the size of the content in pixels
+     */
+    private measure(size: ISize): { width: number; height: number } {
+        const { resolution } = this.atlas.options
+        return {
+            width: Math.ceil(Math.ceil(size.width) * resolution),
+            height: Math.ceil(Math.ceil(size.height) * resolution),
+        }
+    }
+}
@@ -0,0 +1,105 @@
+import { PointerEventTypes, PointerInfoPre } from '@babylonjs/core/Events/pointerEvents'
+import { Vector2 } from '@babylonjs/core/Maths/math.vector'
+import { Observable } from '@babylonjs/core/Misc/observable'
+import { Scene } from '@babylonjs/core/scene'
+import { Container, Point } from 'pixi.js'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { InteractiveTexture, PixiTextureInteraction } from './PixiTextureInteraction.js'
+
+// PIXI reads the user agent when it loads
+vi.hoisted(() => Object.assign(globalThis, { navigator: { userAgent: 'node' } }))
+
+/**
+ * Scene whose picks always hit a mesh showing `pickedTexture`
+ */
+class MockScene {
+    readonly onPrePointerObservable = new Observable<PointerInfoPre>()
+    pointerX = 0
+    pointerY = 0
+    pickedTexture: InteractiveTexture | null = null
+
+    readonly pick = vi.fn(() => ({
+        hit: !!this.pickedTexture,
+        pickedMesh: {
+            material: { hasTexture: (texture: unknown) => texture === this.pickedTexture },
+        },
+        getTextureCoordinates: () => new Vector2(0.5, 0.5),
+    }))
+
+    pointer(type: number, event: object = { pointerId: 1, pointerType: 'mouse' }): PointerInfoPre {
+        const info = { type, event, skipOnPointerObservable: false } as unknown as PointerInfoPre
+        this.onPrePointerObservable.notifyObservers(info)
+        return info
+    }
+}
+
+function createTexture(scene: MockScene) {
+    return {
+        rootPixiContainer: new Container(),
+        uScale: 1,
+        vScale: 1,
+        uOffset: 0,
+        vOffset: 0,
+        getScene: () => scene as unknown as Scene,
+        textureToLocal: (u: number, v: number, out = new Point()) => out.set(u * 100, v * 100),
+    } as unknown as InteractiveTexture
+}
+
+function createInteraction(scene: MockScene) {
+    const interaction = new PixiTextureInteraction(createTexture(scene))
+    // the content is not rendered, only the events reaching the boundary are checked
+    const mapEvent = vi.spyOn(interaction.boundary, 'mapEvent').mockImplementation(() => {})
+    vi.spyOn(interaction.boundary, 'hitTest').mockImplementation(() => null as unknown as Container)
+    return { interaction, mapEvent }
+}
+
+describe('PixiTextureInteraction', () => {
+    let scene: MockScene
+
+    beforeEach(() => {
+        scene = new MockScene()
+    })
+
+    it('picks the scene once per event for all interactive textures', () => {
+        const first = createInteraction(scene)
+        const second = createInteraction(scene)
+        scene.pickedTexture = second.interaction.texture
+
+        scene.pointer(PointerEventTypes.POINTERMOVE)
+
+        expect(scene.pick).toHaveBeenCalledTimes(1)
+        expect(scene.onPrePointerObservable.observers).toHaveLength(1)
+        expect(first.mapEvent).not.toHaveBeenCalled()
+        expect(second.mapEvent).toHaveBeenCalledTimes(1)
+        expect(second.mapEvent.mock.calls[0][0]).toMatchObject({
+            type: 'pointermove',
+            global: { x: 50, y: 50 },
+        })
+    })
+
+    it('ignores events that are not pointer events', () => {
+        const { interaction, mapEvent } = createInteraction(scene)
+        scene.pickedTexture = interaction.texture
+
+        scene.pointer(PointerEventTypes.POINTERMOVE, { clientX: 0 })
+        scene.pointer(PointerEventTypes.POINTERWHEEL, { pointerId: 1 })
+
+        expect(mapEvent).not.toHaveBeenCalled()
+    })
+
+    it('stops observing the scene once the last interaction is disposed', () => {
+        const first = createInteraction(scene)
+        const second = createInteraction(scene)
+
+        first.interaction.dispose()
+        expect(scene.onPrePointerObservable.observers).toHaveLength(1)
+        second.interaction.dispose()
+        expect(scene.onPrePointerObservable.observers).toHaveLength(0)
+
+        // a new interaction observes the scene again
+        createInteraction(scene)
+        scene.pointer(PointerEventTypes.POINTERMOVE)
+        expect(scene.pick).toHaveBeenCalledTimes(1)
+    })
+})
@@ -0,0 +1,251 @@
+import { PickingInfo } from '@babylonjs/core/Collisions/pickingInfo'
+import type {
+    IMouseEvent,
+    IPointerEvent,
+    IWheelEvent,
+} from '@babylonjs/core/Events/deviceInputEvents'
+import { PointerEventTypes, PointerInfoPre } from '@babylonjs/core/Events/pointerEvents'
+import { Texture } from '@babylonjs/core/Materials/Textures/texture'
+import { Vector2 } from '@babylonjs/core/Maths/math.vector'
+import { Observer } from '@babylonjs/core/Misc/observable'
+import { Scene } from '@babylonjs/core/scene'
+import {
+    Container,
+    EventBoundary,
+    FederatedPointerEvent,
+    FederatedWheelEvent,
+    Point,
+} from 'pixi.js'
+
+/**
+ * A texture showing PIXI content that pointer events can be dispatched to
+ */
+export interface InteractiveTexture extends Texture {
+    /** Root container of the content */
+    readonly rootPixiContainer: Container
+    /** Converts a point of the texture, after the UV transform, into the local space of the root */
+    textureToLocal(u: number, v: number, out?: Point): Point
+}
+
+type PointerHandler = (info: PointerInfoPre, pick: PickingInfo) => void
+
+/**
+ * Babylon passes the DOM event in browsers, fields missing from other events fall back in `dispatch`
+ */
+function isPointerEvent(event: IMouseEvent): event is IPointerEvent & PointerEvent {
+    return 'pointerId' in event
+}
+
+function isWheelEvent(event: IMouseEvent): event is IWheelEvent & WheelEvent {
+    return 'deltaY' in event
+}
+
+/**
+ * Picks the scene once per pointer event and hands the result to every interaction of the scene
+ */
+class ScenePointerRouter {
+    private static readonly routers = new WeakMap<Scene, ScenePointerRouter>()
+
+    private readonly handlers = new Set<PointerHandler>()
+    private readonly observer: Observer<PointerInfoPre>
+
+    private constructor(private readonly scene: Scene) {
+        this.observer = scene.onPrePointerObservable.add(info => this.onPointer(info))
+    }
+
+    /**
+     * Adds a handler to the router of the scene, creating it for the first handler
+     *
+     * @returns Function removing the handler
+     */
+    static add(scene: Scene, handler: PointerHandler): () => void {
+        let router = ScenePointerRouter.routers.get(scene)
+        if (!router) {
+            router = new ScenePointerRouter(scene)
+            ScenePointerRouter.routers.set(scene, router)
+        }
+        router.handlers.add(handler)
+        return () => router.remove(handler)
+    }
+
+    private remove(handler: PointerHandler): void {
+        this.handlers.delete(handler)
+        if (this.handlers.size === 0) {
+            this.observer.remove()
+            ScenePointerRouter.routers.delete(this.scene)
+        }
+    }
+
+    private onPointer(info: PointerInfoPre): void {
+        const { scene } = this
+        const pick = scene.pick(scene.pointerX, scene.pointerY)
+        this.handlers.forEach(handler => handler(info, pick))
+    }
+}
+
+/**
+ * Dispatches pointer events on meshes using a PixiTexture or an atlas entry to its PIXI content
+ *
+ * The picked UV is converted into the local space of the texture's root container, undoing the
+ * texture transform and the Y-flip of the correction filter, then mapped through a PIXI
+ * `EventBoundary` as real federated events. Events that hit an interactive PIXI object (and
+ * drags started on one) are hidden from the rest of the Babylon scene, camera controls included.
+ * The scene is picked once per event for all interactive textures, each checks the picked material.
+ */
+export class PixiTextureInteraction {
+    /** Boundary that propagates events through the texture content */
+    public readonly boundary: EventBoundary
+
+    private readonly removeHandler: () => void
+    private readonly point = new Point()
+    private readonly lastPoint = new Point()
+    private inside = false
+    private captured = false
+
+    constructor(public readonly texture: InteractiveTexture) {
+        this.boundary = new EventBoundary(texture.rootPixiContainer)
+        this.removeHandler = ScenePointerRouter.add(texture.getScene()!, (info, pick) =>
+            this.onPointer(info, pick)
+        )
+    }
+
+    /**
+     * Converts a texture coordinate into the local space of the texture's root container
+     */
+    uvToLocal(uv: Vector2, out: Point = new Point()): Point {
+        const { texture } = this
+        let u = uv.x * texture.uScale + texture.uOffset
+        let v = uv.y * texture.vScale + texture.vOffset
+        if (texture.wrapU === Texture.WRAP_ADDRESSMODE) {
+            u -= Math.floor(u)
+        }
+        if (texture.wrapV === Texture.WRAP_ADDRESSMODE) {
+            v -= Math.floor(v)
+        }
+        return texture.textureToLocal(u, v, out)
+    }
+
+    /**
+     * Stops dispatching pointer events to the texture content
+     */
+    dispose(): void {
+        this.removeHandler()
+    }
+
+    /**
+     * Returns the local position under the pointer if the picked mesh shows the texture
+     */
+    private pickPosition(pick: PickingInfo): Point | null {
+        const material = pick.pickedMesh?.material
+        if (!pick.hit || !material?.hasTexture(this.texture)) {
+            return null
+        }
+        const uv = pick.getTextureCoordinates()
+        return uv ? this.uvToLocal(uv, this.point) : null
+    }
+
+    private onPointer(info: PointerInfoPre, pick: PickingInfo): void {
+        const position = this.pickPosition(pick)
+        if (position) {
+            this.lastPoint.copyFrom(position)
+        }
+        const { event } = info
+        let consumed = false
+        if (info.type === PointerEventTypes.POINTERWHEEL) {
+            if (position && isWheelEvent(event)) {
+                consumed = this.dispatchWheel(event, this.lastPoint)
+            }
+        } else if (isPointerEvent(event)) {
+            consumed = this.onPointerEvent(info.type, event, !!position)
+        }
+        if (consumed || this.captured) {
+            info.skipOnPointerObservable = true
+        }
+    }
+
+    /**
+     * Dispatches a move, down or up event, keeping track of the hover and the captured drag
+     *
+     * @returns Whether the event was consumed
+     */
+    private onPointerEvent(type: number, event: PointerEvent, hit: boolean): boolean {
+        let consumed = false
+        switch (type) {
+            case PointerEventTypes.POINTERMOVE:
+                if (hit || this.captured) {
+                    consumed = this.dispatch('pointermove', event, this.lastPoint)
+                    this.inside = hit
+                } else if (this.inside) {
+                    this.dispatch('pointerout', event, this.lastPoint)
+                    this.inside = false
+                }
+                break
+            case PointerEventTypes.POINTERDOWN:
+                if (hit) {
+                    consumed = this.dispatch('pointerdown', event, this.lastPoint)
+                    this.captured = consumed
+                }
+                break
+            case PointerEventTypes.POINTERUP:
+                if (hit || this.captured) {
+                    consumed = this.dispatch('pointerup', event, this.lastPoint) || this.captured
+                    this.captured = false
+                }
+                break
+        }
+        return consumed
+    }
+
+    /**
+     * Maps a pointer event through the boundary
+     *
+     * @returns Whether an interactive PIXI object was hit
+     */
+    private dispatch(type: string, nativeEvent: PointerEvent, position: Point): boolean {
+        const { boundary } = this
+        const event = new FederatedPointerEvent(boundary)
+        event.type = type
+        event.nativeEvent = nativeEvent
+        event.pointerId = nativeEvent.pointerId ?? 1
+        event.pointerType = nativeEvent.pointerType ?? 'mouse'
+        event.isPrimary = nativeEvent.isPrimary ?? true
+        event.width = nativeEvent.width ?? 1
+        event.height = nativeEvent.height ?? 1
+        event.pressure = nativeEvent.pressure ?? 0.5
+        this.transferMouseData(event, nativeEvent, position)
+        boundary.mapEvent(event)
+        return type !== 'pointerout' && !!boundary.hitTest(position.x, position.y)
+    }
+
+    private dispatchWheel(nativeEvent: WheelEvent, position: Point): boolean {
+        const { boundary } = this
+        const event = new FederatedWheelEvent(boundary)
+        event.type = 'wheel'
+        event.nativeEvent = nativeEvent
+        event.deltaX = nativeEvent.deltaX
+        event.deltaY = nativeEvent.deltaY
+        event.deltaZ = nativeEvent.deltaZ
+        event.deltaMode = nativeEvent.deltaMode
+        this.transferMouseData(event, nativeEvent, position)
+        boundary.mapEvent(event)
+        return !!boundary.hitTest(position.x, position.y)
+    }
+
+    private transferMouseData(
+        event: FederatedPointerEvent | FederatedWheelEvent,
+        nativeEvent: MouseEvent,
+        position: Point
+    ): void {
+        event.button = nativeEvent.button
+        event.buttons = nativeEvent.buttons
+        event.altKey = nativeEvent.altKey
+        event.ctrlKey = nativeEvent.ctrlKey
+        event.metaKey = nativeEvent.metaKey
+        event.shiftKey = nativeEvent.shiftKey
+        event.client.set(nativeEvent.clientX, nativeEvent.clientY)
+        event.timeStamp = performance.now()
+        event.global.copyFrom(position)
+        event.screen.copyFrom(position)
+        event.offset.copyFrom(position)
+    }
+}
@@ -0,0 +1,67 @@
+import { RenderTexture, Sprite, Texture } from 'pixi.js'
+
+import type { PixiBabylonApplication } from '../core/PixiBabylonApp.js'
+import { unbindPixiSamplers } from '../pixi/unbindPixiSamplers.js'
+
+import { PremultiplyAlphaFilter } from './PremultiplyAlphaFilter.js'
+
+/**
+ * PIXI render texture holding a premultiplied copy of a texture with straight colors
+ *
+ * Used by the textures sharing Babylon's WebGL textures with PIXI when Babylon wrote straight
+ * alpha. Call `update()` whenever the input changed, it may run in the middle of Babylon's
+ * frame and leaves the default framebuffer bound with Babylon's caches wiped.
+ */
+export class PremultipliedCopy {
+    /** The premultiplied copy, upright and sized like the input */
+    public readonly texture: RenderTexture
+
+    private readonly sprite: Sprite
+    private readonly filter = new PremultiplyAlphaFilter()
+
+    /**
+     * @param input - Texture holding straight colors
+     * @param pixiBabylonApplication - Application whose renderer draws the copy
+     */
+    constructor(
+        input: Texture,
+        private readonly pixiBabylonApplication: PixiBabylonApplication
+    ) {
+        this.filter.resolution = 'inherit'
+        this.sprite = new Sprite(input)
+        this.sprite.filters = [this.filter]
+        this.texture = RenderTexture.create({
+            width: input.width,
+            height: input.height,
+            resolution: input.source.resolution,
+            label: input.label,
+        })
+    }
+
+    /**
+     * Renders the copy again, resized to the input
+     */
+    update(): void {
+        const { texture, sprite } = this
+        const { pixiApp, gl, engine } = this.pixiBabylonApplication
+        const { renderer } = pixiApp
+        const input = sprite.texture
+        if (texture.width !== input.width || texture.height !== input.height) {
+            texture.source.resize(input.width, input.height, input.source.resolution)
+        }
+
+        renderer.resetState()
+        renderer.render({ target: texture, container: sprite, clear: true })
+        gl.bindVertexArray(null)
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+        unbindPixiSamplers(renderer)
+        this.pixiBabylonApplication.glStateDebugger?.check('premultiply')
+        engine.wipeCaches(true)
+    }
+
+    destroy(): void {
+        this.sprite.destroy()
+        this.filter.destroy()
+        this.texture.destroy(true)
+    }
+}
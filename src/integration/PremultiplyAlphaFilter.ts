@@ -0,0 +1,33 @@
+import { defaultFilterVert, Filter, GlProgram } from 'pixi.js'
+// language=glsl
+const FRAGMENT_SHADER = `
+    in vec2 vTextureCoord;
+
+    out vec4 finalColor;
+
+    uniform sampler2D uTexture;
+
+    void main()
+    {
+        vec4 c = texture(uTexture, vTextureCoord);
+        finalColor = vec4(c.rgb * c.a, c.a);
+    }
+    `
+
+/**
+ * PIXI filter premultiplying straight colors by their alpha
+ *
+ * The reverse of the alpha correction of BabylonTextureFilter: Babylon textures usually hold
+ * straight colors, PIXI blends every texture as premultiplied. Unlike BabylonTextureFilter the
+ * content is not flipped.
+ */
+export class PremultiplyAlphaFilter extends Filter {
+    constructor() {
+        super({
+            glProgram: new GlProgram({
+                vertex: defaultFilterVert,
+                fragment: FRAGMENT_SHADER,
+            }),
+        })
+    }
+}
@@ -0,0 +1,131 @@
+import { Texture } from '@babylonjs/core/Materials/Textures/texture'
+import { ISize } from '@babylonjs/core/Maths'
+import { Scene } from '@babylonjs/core/scene'
+
+import { flipPixelRows, imageDataToBlob, resizeImageData } from '../core/imageData.js'
+
+import { PixiTexture } from './PixiTexture.js'
+import { PixiTextureAtlasEntry } from './PixiTextureAtlasEntry.js'
+
+/**
+ * A texture rendering PIXI content, exported as a snapshot
+ */
+export type ExportablePixiTexture = PixiTexture | PixiTextureAtlasEntry
+
+export interface PixiTextureExportOptions {
+    /**
+     * Size of the exported images in pixels, defaults to the size of each texture
+     * A function picks the size per texture, returning undefined keeps the texture size
+     */
+    size?: ISize | ((texture: ExportablePixiTexture) => ISize | undefined)
+}
+
+interface TextureSlot {
+    material: Record<string, unknown>
+    key: string
+    texture: ExportablePixiTexture
+}
+
+/**
+ * Runs an export with every PixiTexture of the scene materials replaced by a PNG snapshot
+ *
+ * The pixels of a PixiTexture only live in a wrapped GPU texture, which exporters like
+ * `GLTF2Export` of `@babylonjs/serializers` cannot read back. Each texture is synced, read with
+ * straight alpha, optionally scaled and encoded as PNG. The snapshots take the place of the
+ * textures on the materials while the export runs, so they are embedded as normal images,
+ * then the textures are put back. Rows are stored in the order the mesh UVs sample them, like
+ * the exporter does for every Babylon texture. Atlas entries are exported as images of their own.
+ *
+ * @param scene - Scene whose materials are exported
+ * @param exportAsync - Runs the export
+ * @param options - Export options
+ * @returns The result of the export
+ *
+ * @example
+ * ```typescript
+ * import { GLTF2Export } from '@babylonjs/serializers'
+ *
+ * const glb = await exportWithPixiTextures(scene, () => GLTF2Export.GLBAsync(scene, 'level'), {
+ *     size: { width: 512, height: 512 },
+ * })
+ * glb.downloadFiles()
+ * ```
+ */
+export async function exportWithPixiTextures<T>(
+    scene: Scene,
+    exportAsync: () => Promise<T>,
+    options: PixiTextureExportOptions = {}
+): Promise<T> {
+    const slots: TextureSlot[] = []
+    scene.materials.forEach(material => {
+        const fields = material as unknown as Record<string, unknown>
+        Object.keys(fields).forEach(key => {
+            const texture = fields[key]
+            if (texture instanceof PixiTexture || texture instanceof PixiTextureAtlasEntry) {
+                slots.push({ material: fields, key, texture })
+            }
+        })
+    })
+
+    const snapshots = new Map<ExportablePixiTexture, Texture>()
+    try {
+        for (const { texture } of slots) {
+            if (!snapshots.has(texture)) {
+                snapshots.set(texture, await createSnapshot(texture, scene, options))
+            }
+        }
+        // fields are swapped behind the setters, so materials are not marked dirty
+        slots.forEach(({ material, key, texture }) => (material[key] = snapshots.get(texture)))
+        return await exportAsync()
+    } finally {
+        slots.forEach(({ material, key, texture }) => (material[key] = texture))
+        snapshots.forEach(snapshot => snapshot.dispose())
+    }
+}
+
+/**
+ * Syncs a texture and loads its pixels into an image texture
+ */
+async function createSnapshot(
+    texture: ExportablePixiTexture,
+    scene: Scene,
+    options: PixiTextureExportOptions
+): Promise<Texture> {
+    texture.sync()
+    let imageData = texture.toImageData()
+    // back to the bottom-up rows of the GPU texture, sampled with invertY disabled
+    flipPixelRows(imageData.data, imageData.width, imageData.height)
+    const size = typeof options.size === 'function' ? options.size(texture) : options.size
+    if (size) {
+        imageData = resizeImageData(imageData, Math.round(size.width), Math.round(size.height))
+    }
+    const blob = await imageDataToBlob(imageData, 'image/png')
+
+    const name = texture.name || 'pixiTexture'
+    let snapshot!: Texture
+    await new Promise<void>((resolve, reject) => {
+        snapshot = new Texture(`${name}-${texture.uniqueId}.png`, scene, {
+            buffer: blob,
+            invertY: false,
+            noMipmap: !texture.getInternalTexture()?.generateMipMaps,
+            samplingMode: texture.samplingMode,
+            mimeType: 'image/png',
+            onLoad: () => resolve(),
+            onError: message => reject(new Error(`${name} snapshot failed to load: ${message}!`)),
+        })
+    })
+    snapshot.name = name
+    snapshot.hasAlpha = true
+    snapshot.wrapU = texture.wrapU
+    snapshot.wrapV = texture.wrapV
+    snapshot.coordinatesIndex = texture.coordinatesIndex
+    snapshot.level = texture.level
+    if (texture instanceof PixiTexture) {
+        // the UV transform of an atlas entry addresses its page, the snapshot holds the entry alone
+        snapshot.uScale = texture.uScale
+        snapshot.vScale = texture.vScale
+        snapshot.uOffset = texture.uOffset
+        snapshot.vOffset = texture.vOffset
+    }
+    return snapshot
+}
@@ -1,5 +1,17 @@
 import { Application, ApplicationOptions } from 'pixi.js'
 
+/**
+ * Options the shared context and the integrated render loop depend on, the `pixi` options cannot
+ * change them: Babylon clears the canvas and the scheduler drives the ticker
+ */
+export const SHARED_CONTEXT_PIXI_OPTIONS = {
+    preference: 'webgl',
+    preferWebGLVersion: 2,
+    backgroundAlpha: 0,
+    clearBeforeRender: false,
+    autoStart: false,
+} as const satisfies Partial<ApplicationOptions>
+
 /**
  * Creates a PIXI application with enhanced configuration options
  *
@@ -15,23 +27,20 @@ export async function createPixiApp(
 ): Promise<Application> {
     const size = getComputedStyle(canvas)
     // Create application options
-    const resolution = Math.min(devicePixelRatio, 2)
+    const resolution = config.resolution ?? Math.min(devicePixelRatio, 2)
     const options: Partial<ApplicationOptions> = {
         // width: 800,
         // height: 600,
         // backgroundColor: 0x1099bb,
         // antialias: true,
+        roundPixels: true,
         ...config,
         canvas,
         context,
         resolution,
-        backgroundAlpha: 0,
-        preferWebGLVersion: 2,
-        autoStart: false,
-        clearBeforeRender: false,
-        roundPixels: true,
-        width: parseInt(size.width),
-        height: parseInt(size.height),
+        ...SHARED_CONTEXT_PIXI_OPTIONS,
+        width: config.width ?? parseInt(size.width),
+        height: config.height ?? parseInt(size.height),
     }
 
     // Create and initialize application
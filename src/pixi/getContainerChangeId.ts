@@ -0,0 +1,31 @@
+import { Container } from 'pixi.js'
+
+/**
+ * Computes an id that changes whenever something in the scene graph of a container changes
+ *
+ * PIXI bumps `_didContainerChangeTick` on transform, alpha, tint and visibility changes and
+ * `_didViewChangeTick` on view changes (text, texture, graphics) and on added/removed children.
+ * Content changes inside a texture source, such as a playing video, are not tracked.
+ *
+ * @param container - Root of the scene graph
+ * @returns A hash of the change ticks of every container in the scene graph
+ */
+export function getContainerChangeId(container: Container): number {
+    let hash = 17
+    const stack: Container[] = [container]
+    while (stack.length) {
+        const node = stack.pop()!
+        hash = (hash * 31 + node.uid) | 0
+        hash = (hash * 31 + node._didContainerChangeTick) | 0
+        hash = (hash * 31 + node._didViewChangeTick) | 0
+        hash = (hash * 31 + node.children.length) | 0
+        const texture = (node as Partial<{ texture: { uid: number } }>).texture
+        if (texture) {
+            hash = (hash * 31 + texture.uid) | 0
+        }
+        for (let i = node.children.length - 1; i >= 0; i--) {
+            stack.push(node.children[i])
+        }
+    }
+    return hash
+}
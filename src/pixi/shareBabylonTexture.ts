@@ -0,0 +1,24 @@
+import { InternalTexture } from '@babylonjs/core/Materials/Textures/internalTexture'
+import { GlTexture, Renderer, TextureSource } from 'pixi.js'
+
+/**
+ * Points a PIXI texture source at the WebGL texture of a Babylon texture
+ *
+ * The texture is registered without PIXI's texture manager, so PIXI never uploads to or
+ * deletes it. Call again whenever Babylon recreates the texture, after a resize or a
+ * context restore.
+ *
+ * @param source - PIXI source sampling the texture
+ * @param texture - Babylon internal texture owning the WebGL texture
+ * @param renderer - The PIXI renderer sharing the context with Babylon
+ */
+export function shareBabylonTexture(
+    source: TextureSource,
+    texture: InternalTexture,
+    renderer: Renderer
+): void {
+    const glTexture = new GlTexture(texture._hardwareTexture!.underlyingResource as WebGLTexture)
+    glTexture.width = texture.width
+    glTexture.height = texture.height
+    source._gpuData[renderer.uid] = glTexture
+}
@@ -0,0 +1,25 @@
+import { GlTextureSystem, Renderer, WebGLRenderer } from 'pixi.js'
+
+/**
+ * Unbinds the sampler objects PIXI left on texture units
+ *
+ * A bound sampler overrides the parameters of any texture on its unit, so Babylon's sampling,
+ * wrap and anisotropy settings would silently be ignored. `renderer.resetState()` forgets
+ * the bound samplers without unbinding them, so this must run before it.
+ *
+ * @param renderer - The PIXI renderer sharing the context with Babylon
+ */
+export function unbindPixiSamplers(renderer: Renderer): void {
+    const textureSystem = renderer.texture as GlTextureSystem
+    const { gl } = renderer as WebGLRenderer
+    const boundSamplers: Record<number, WebGLSampler | null> = textureSystem['_boundSamplers']
+    if (!gl || !boundSamplers) {
+        return
+    }
+    for (const location in boundSamplers) {
+        if (boundSamplers[location]) {
+            gl.bindSampler(Number(location), null)
+            boundSamplers[location] = null
+        }
+    }
+}